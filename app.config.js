@@ -24,6 +24,15 @@ try {
 // app.json base
 const appJson = require('./app.json');
 
+// Portal host for the https app links (https://<host>/app/...)
+const webviewBaseUrl = process.env.WEBVIEW_BASE_URL || rebrandConfig.webviewBaseUrl;
+let appLinkHost = null;
+try {
+  appLinkHost = webviewBaseUrl ? new URL(webviewBaseUrl).hostname : null;
+} catch (error) {
+  console.warn('Invalid webview base URL, app links disabled:', error.message);
+}
+
 module.exports = {
   ...appJson,
   expo: {
@@ -32,11 +41,20 @@ module.exports = {
       ...appJson.expo.ios,
       bundleIdentifier: process.env.IOS_BUNDLE_ID || "com.vrveiculorastreado.app",
       googleServicesFile: "./GoogleService-Info.plist",
+      associatedDomains: appLinkHost ? [`applinks:${appLinkHost}`] : [],
     },
     android: {
       ...appJson.expo.android,
       package: process.env.ANDROID_PACKAGE || "com.vrveiculorastreado.app",
       googleServicesFile: "./google-services.json",
+      intentFilters: appLinkHost ? [
+        {
+          action: "VIEW",
+          autoVerify: true,
+          data: [{ scheme: "https", host: appLinkHost, pathPrefix: "/app" }],
+          category: ["BROWSABLE", "DEFAULT"]
+        }
+      ] : [],
     },
     plugins: [
       "expo-router",
@@ -58,11 +76,21 @@ module.exports = {
         }
       ],
       "@maplibre/maplibre-react-native",
+      // Apps de navegação consultados pelo seletor, como LSApplicationQueriesSchemes no iOS,
+      // e os apps de telefone, SMS e e-mail usados pela ponte do portal
+      [
+        "./with-android-queries.js",
+        {
+          schemes: ["waze", "google.navigation", "uber", "taxis99", "tel", "sms", "mailto"]
+        }
+      ],
       "./with-force-modular-headers.js" // Plugin adicionado aqui
     ],
     extra: {
       ...appJson.expo.extra,
-      webviewBaseUrl: process.env.WEBVIEW_BASE_URL || rebrandConfig.webviewBaseUrl
+      webviewBaseUrl,
+      mapApiKey: process.env.MAP_API_KEY,
+      mapApiKeyProvider: process.env.MAP_API_KEY_PROVIDER
     }
   }
 };
@@ -0,0 +1,19 @@
+import { getDeepLinkRoute } from '../utils/deepLinks';
+
+/**
+ * Rewrite deep links and app links to the app routes
+ * Links that are not handled keep the default expo-router behavior
+ */
+export function redirectSystemPath({ path, initial }: { path: string; initial: boolean }) {
+  try {
+    const route = getDeepLinkRoute(path);
+    if (route) {
+      console.log('DeepLinks: Opening', path, 'as', route, initial ? '(cold start)' : '');
+      return route;
+    }
+  } catch (error) {
+    console.error('DeepLinks: Error handling link:', path, error);
+  }
+
+  return path;
+}
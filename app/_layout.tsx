@@ -4,10 +4,18 @@ import { Alert, StatusBar, Platform, SafeAreaView, View, StyleSheet } from 'reac
 import { getFCMToken, requestNotificationPermission, onMessage, createNotificationChannel } from '../utils/messaging';
 import { FirebaseMessagingTypes } from '@react-native-firebase/messaging';
 import { getMessaging, getInitialNotification, onNotificationOpenedApp } from '@react-native-firebase/messaging';
-import { Toast, showNotificationPermissionToast, InAppNotification, showNotification } from '../utils/toast';
+import { Toast, showNotificationPermissionToast, InAppNotification, showNotification, showToast } from '../utils/toast';
 import * as SplashScreen from 'expo-splash-screen';
 import config from '../utils/config';
+import { recordNotification } from '../utils/inbox';
+import { parseAlertCategory } from '../utils/alertCategories';
+import { loadAlertPreferences, checkAlertFilters } from '../utils/alertPreferences';
+import { getGeofenceExitTitle } from '../utils/geofences';
+import { onNotificationResponse, registerNotificationCategories } from '../utils/notificationActions';
+import { cacheAlertRegion } from '../utils/offlineMaps';
+import { getNotificationRoute, openPushRoute } from '../utils/pushRoutes';
 import { useRouter } from 'expo-router';
+import NavigationChooser from '../components/NavigationChooser';
 
 // Import Firebase initialization
 import '../firebase-init';
@@ -17,6 +25,11 @@ SplashScreen.preventAutoHideAsync().catch(() => {
   /* reloading the app might trigger some race conditions, ignore them */
 });
 
+// Keep the portal under screens opened from a deep link, so it loads (and gets the FCM token) on cold start
+export const unstable_settings = {
+  initialRouteName: 'index',
+};
+
 // Define styles for the layout
 const styles = StyleSheet.create({
   container: {
@@ -62,6 +75,9 @@ export default function RootLayout() {
       await createNotificationChannel();
       console.log('RootLayout: Notification channel created');
 
+      // Register the alert categories so their notifications get action buttons
+      await registerNotificationCategories();
+
       // Request notification permissions first - force request and show toast if denied
       console.log('RootLayout: Requesting notification permission...');
       const permissionGranted = await requestNotificationPermission(true);
@@ -87,6 +103,7 @@ export default function RootLayout() {
 
           if (initialNotification) {
             console.log('RootLayout: App opened from notification:', initialNotification);
+            recordNotification(initialNotification, true).then(cacheAlertRegion);
             handleNotificationNavigation(initialNotification);
           }
 
@@ -94,6 +111,7 @@ export default function RootLayout() {
           console.log('RootLayout: Setting up onNotificationOpenedApp listener');
           onNotificationOpenedApp(messagingInstance, (notification: FirebaseMessagingTypes.RemoteMessage) => {
             console.log('RootLayout: Notification opened app from background state:', notification);
+            recordNotification(notification, true).then(cacheAlertRegion);
             handleNotificationNavigation(notification);
           });
           console.log('RootLayout: Notification opened app listener set up successfully');
@@ -121,246 +139,25 @@ export default function RootLayout() {
   // Function to handle navigation based on notification data
   const handleNotificationNavigation = (notification: FirebaseMessagingTypes.RemoteMessage) => {
     try {
-      console.log('=== NOTIFICATION DATA ANALYSIS ===');
-      console.log('Full notification object:', JSON.stringify(notification, null, 2));
-
-      // Analyze data payload
-      if (notification.data) {
-        console.log('DATA PAYLOAD ANALYSIS:');
-        console.log('- Data keys:', Object.keys(notification.data));
-
-        // Location data
-        console.log('- Location data:');
-        console.log('  - lat:', notification.data.lat, typeof notification.data.lat);
-        console.log('  - lon:', notification.data.lon, typeof notification.data.lon);
-
-        // Vehicle data
-        console.log('- Vehicle data:');
-        console.log('  - placa:', notification.data.placa);
-        console.log('  - end:', notification.data.end);
-        console.log('  - vel:', notification.data.vel);
-        console.log('  - dt:', notification.data.dt);
-        console.log('  - ign:', notification.data.ign);
-        console.log('  - id:', notification.data.id);
-
-        // Message content
-        console.log('- Message content:');
-        console.log('  - title:', notification.data.title);
-        console.log('  - message:', notification.data.message);
-      }
+      console.log('RootLayout: Handling notification navigation:', JSON.stringify(notification, null, 2));
 
-      // Analyze notification payload
-      if (notification.notification) {
-        console.log('NOTIFICATION PAYLOAD ANALYSIS:');
-        console.log('- title:', notification.notification.title);
-        console.log('- body:', notification.notification.body);
-        console.log('- android:', notification.notification.android);
-        console.log('- ios:', notification.notification.ios);
-      }
+      // Vehicle coordinates open the map, then the validated `screen` / `url` fields are used
+      const route = getNotificationRoute(notification.data, {
+        title: notification.notification?.title,
+        body: notification.notification?.body,
+      });
 
-      console.log('=== NOTIFICATION DATA ANALYSIS END ===');
-      // Check if the notification has data
-      if (notification.data && Object.keys(notification.data).length > 0) {
-        // If the notification contains location data (lat/lon format), navigate to map screen
-        if (notification.data.lat && notification.data.lon) {
-          console.log('Navigating to map with coordinates from lat/lon:', notification.data.lat, notification.data.lon);
-          console.log('Including title and message from notification');
-
-          const latitude = typeof notification.data.lat === 'string'
-            ? notification.data.lat
-            : String(notification.data.lat);
-
-          const longitude = typeof notification.data.lon === 'string'
-            ? notification.data.lon
-            : String(notification.data.lon);
-
-          // Use the original notification title and message
-          const title = typeof notification.data.title === 'string'
-            ? notification.data.title
-            : notification.notification?.title || 'Localização';
-
-          const message = typeof notification.data.message === 'string'
-            ? notification.data.message
-            : notification.notification?.body || '';
-
-          // Get additional vehicle data from notification
-          const additionalParams: Record<string, string> = {};
-
-          // Add each parameter if it exists and is a string
-          if (typeof notification.data.placa === 'string') additionalParams.placa = notification.data.placa;
-          if (typeof notification.data.end === 'string') additionalParams.end = notification.data.end;
-          if (typeof notification.data.vel === 'string') additionalParams.vel = notification.data.vel;
-          if (typeof notification.data.dt === 'string') additionalParams.dt = notification.data.dt;
-          if (typeof notification.data.ign === 'string') additionalParams.ign = notification.data.ign;
-          if (typeof notification.data.id === 'string') additionalParams.id = notification.data.id;
-
-          // Navigate to map with all the parameters
-          router.push({
-            pathname: '/map' as const,
-            params: {
-              latitude,
-              longitude,
-              title,
-              message,
-              ...additionalParams
-            }
-          });
-        }
-        // For backward compatibility, still check for latitude/longitude
-        else if (notification.data.latitude && notification.data.longitude) {
-          console.log('Navigating to map with coordinates:', notification.data.latitude, notification.data.longitude);
-          console.log('Including title and message from notification');
-
-          const latitude = typeof notification.data.latitude === 'string'
-            ? notification.data.latitude
-            : String(notification.data.latitude);
-
-          const longitude = typeof notification.data.longitude === 'string'
-            ? notification.data.longitude
-            : String(notification.data.longitude);
-
-          // Use the original notification title and message
-          const title = typeof notification.data.title === 'string'
-            ? notification.data.title
-            : notification.notification?.title || 'Localização';
-
-          const message = typeof notification.data.message === 'string'
-            ? notification.data.message
-            : notification.notification?.body || '';
-
-          // Get additional vehicle data from notification
-          const additionalParams: Record<string, string> = {};
-
-          // Add each parameter if it exists and is a string
-          if (typeof notification.data.placa === 'string') additionalParams.placa = notification.data.placa;
-          if (typeof notification.data.end === 'string') additionalParams.end = notification.data.end;
-          if (typeof notification.data.vel === 'string') additionalParams.vel = notification.data.vel;
-          if (typeof notification.data.dt === 'string') additionalParams.dt = notification.data.dt;
-          if (typeof notification.data.ign === 'string') additionalParams.ign = notification.data.ign;
-          if (typeof notification.data.id === 'string') additionalParams.id = notification.data.id;
-
-          router.push({
-            pathname: '/map' as const,
-            params: {
-              latitude,
-              longitude,
-              title,
-              message,
-              ...additionalParams
-            }
-          });
-        }
-        // Check if there's a specific screen to navigate to
-        else if (notification.data.screen) {
-          const screen = typeof notification.data.screen === 'string'
-            ? notification.data.screen
-            : '/';
-
-          console.log('Navigating to screen:', screen);
-          router.push(screen as any);
-        }
-        // If no location data or target screen is specified, use notification data
-        else {
-          navigateWithNotificationData(notification);
-        }
-      }
-      // If there's no data at all, use notification data
-      else {
-        navigateWithNotificationData(notification);
-      }
+      console.log('Navigating from notification to:', route.pathname, route.params);
+      openPushRoute(router, route);
     } catch (error) {
       console.error('Error navigating from notification:', error);
-      // If there's an error, try to navigate with notification data as a fallback
-      try {
-        navigateWithNotificationData(notification);
-      } catch (fallbackError) {
-        console.error('Error navigating with notification data:', fallbackError);
-      }
     }
   };
 
-  // Function to navigate to the map with actual notification data
-  const navigateWithNotificationData = (notification: FirebaseMessagingTypes.RemoteMessage) => {
-    console.log('=== NAVIGATE WITH NOTIFICATION DATA ===');
-    console.log('Navigating to map with actual notification data');
-
-    // Analyze notification structure
-    console.log('Notification structure:');
-    console.log('- Has data payload:', !!notification.data);
-    console.log('- Has notification payload:', !!notification.notification);
-
-    if (notification.data) {
-      console.log('Data payload keys:', Object.keys(notification.data));
-      console.log('Data payload values:');
-      Object.entries(notification.data).forEach(([key, value]) => {
-        console.log(`  - ${key}: ${value} (${typeof value})`);
-      });
-    }
-
-    // Use notification title and body if available
-    const title = notification.notification?.title || 'Notificação';
-    const message = notification.notification?.body || '';
-
-    console.log('Using title:', title);
-    console.log('Using message:', message);
-
-    // Create parameters for the map screen using only notification data
-    const params: Record<string, string> = {
-      title,
-      message
-    };
-
-    // Only add coordinates if they exist in the notification
-    if (notification.data) {
-      console.log('Checking for coordinates in notification data');
-
-      // Check for lat/lon (primary format from your server)
-      if (notification.data.lat) {
-        console.log('Found lat:', notification.data.lat);
-        // Store the original string value - don't convert here
-        params.latitude = notification.data.lat as string;
-        console.log('Set latitude param to:', params.latitude);
-      }
-      // Fallback to latitude if lat is not available
-      else if (notification.data.latitude) {
-        console.log('Found latitude:', notification.data.latitude);
-        params.latitude = notification.data.latitude as string;
-        console.log('Set latitude param to:', params.latitude);
-      }
-
-      // Check for lon (primary format from your server)
-      if (notification.data.lon) {
-        console.log('Found lon:', notification.data.lon);
-        // Store the original string value - don't convert here
-        params.longitude = notification.data.lon as string;
-        console.log('Set longitude param to:', params.longitude);
-      }
-      // Fallback to longitude if lon is not available
-      else if (notification.data.longitude) {
-        console.log('Found longitude:', notification.data.longitude);
-        params.longitude = notification.data.longitude as string;
-        console.log('Set longitude param to:', params.longitude);
-      }
-    }
-
-    // Add any additional data from the notification if available
-    if (notification.data) {
-      if (notification.data.placa) params.placa = notification.data.placa as string;
-      if (notification.data.end) params.end = notification.data.end as string;
-      if (notification.data.vel) params.vel = notification.data.vel as string;
-      if (notification.data.dt) params.dt = notification.data.dt as string;
-      if (notification.data.ign) params.ign = notification.data.ign as string;
-      if (notification.data.id) params.id = notification.data.id as string;
-    }
-
-    console.log('Navigating to map with notification data:', params);
-
-    // Navigate to the map screen with the notification data
-    router.push({
-      pathname: '/map' as const,
-      params
-    });
-  };
+  // Handle taps on the alert notifications and their action buttons
+  useEffect(() => {
+    return onNotificationResponse(router);
+  }, [router]);
 
   // Third useEffect to set up foreground message handler
   useEffect(() => {
@@ -368,67 +165,57 @@ export default function RootLayout() {
       console.log('RootLayout: Setting up foreground message handler');
       // Set up foreground message handler
       const unsubscribeForeground = onMessage((message) => {
-        console.log('=== FOREGROUND MESSAGE ANALYSIS ===');
-        console.log('Full message object:', JSON.stringify(message, null, 2));
-
-        // Analyze data payload
-        if (message.data) {
-          console.log('FOREGROUND DATA PAYLOAD:');
-          console.log('- Data keys:', Object.keys(message.data));
-
-          // Location data
-          console.log('- Location data:');
-          console.log('  - lat:', message.data.lat, typeof message.data.lat);
-          console.log('  - lon:', message.data.lon, typeof message.data.lon);
-
-          // Vehicle data
-          console.log('- Vehicle data:');
-          console.log('  - placa:', message.data.placa);
-          console.log('  - end:', message.data.end);
-          console.log('  - vel:', message.data.vel);
-          console.log('  - dt:', message.data.dt);
-          console.log('  - ign:', message.data.ign);
-          console.log('  - id:', message.data.id);
-        }
+        console.log('RootLayout: Foreground message received:', JSON.stringify(message, null, 2));
+
+        // Keep every received alert in the on-device inbox and cache the map around it
+        const recorded = recordNotification(message);
+        recorded.then(cacheAlertRegion).catch(error => {
+          console.error('RootLayout: Failed to cache the alert region:', error);
+        });
+
+        // Apply the alert preferences and the portal filters before showing anything
+        Promise.all([recorded, loadAlertPreferences()]).then(async ([event, preferences]) => {
+          // Positions are checked against the geofences drawn on the map
+          const geofenceTitle = await getGeofenceExitTitle(event);
+          const data = geofenceTitle && !parseAlertCategory(message.data)
+            ? { ...message.data, category: 'geofence_exit' }
+            : message.data;
+
+          // Data-only alerts carry their text in the data payload, other data-only pushes are not shown
+          if (!message.notification && !parseAlertCategory(data)) {
+            return;
+          }
 
-        // Analyze notification payload
-        if (message.notification) {
-          console.log('FOREGROUND NOTIFICATION PAYLOAD:');
-          console.log('- title:', message.notification.title);
-          console.log('- body:', message.notification.body);
-        }
+          const filterReason = await checkAlertFilters(data, event);
+          if (filterReason) {
+            console.log('RootLayout: Foreground message not shown:', filterReason);
+            return;
+          }
+
+          const title = geofenceTitle || (message.notification ? message.notification.title : event.title) || 'Nova Notificação';
+          const body = (message.notification ? message.notification.body : event.message) || 'Você recebeu uma nova notificação';
+
+          if (preferences.foregroundDisplay === 'toast') {
+            showToast(`${title}: ${body}`, 5000, 'Ver', () => {
+              openPushRoute(router, getNotificationRoute(data, { title, body }));
+            });
+            return;
+          }
+
+          // Use custom notification instead of Alert
+          showNotification(title, body, data || {});
+        }).catch(error => {
+          // The alert is still shown when recording or filtering it fails, silent data pushes are not
+          console.error('RootLayout: Error processing foreground message:', error);
+          const data = message.data || {};
+          if (!message.notification && typeof data.title !== 'string') return;
 
-        console.log('=== FOREGROUND MESSAGE ANALYSIS END ===');
-
-        // Use custom notification instead of Alert
-        if (message.notification) {
-          // Extract any location data from message.data
-          const locationData = message.data ? {
-            // Use lat/lon directly without conversion - will be handled in map screen
-            latitude: message.data.lat || message.data.latitude,
-            longitude: message.data.lon || message.data.longitude,
-            placa: message.data.placa,
-            end: message.data.end,
-            vel: message.data.vel,
-            dt: message.data.dt,
-            ign: message.data.ign,
-            id: message.data.id,
-            title: message.notification.title, // Include notification title
-            message: message.notification.body // Include notification body as message
-          } : {
-            title: message.notification.title, // Include notification title
-            message: message.notification.body // Include notification body even without location data
-          };
-
-          console.log('Foreground notification data:', locationData);
-
-          // Show the custom notification
           showNotification(
-            message.notification.title || 'Nova Notificação',
-            message.notification.body || 'Você recebeu uma nova notificação',
-            locationData
+            message.notification?.title || String(data.title || '') || 'Nova Notificação',
+            message.notification?.body || String(data.body || data.message || '') || 'Você recebeu uma nova notificação',
+            data
           );
-        }
+        });
       });
       console.log('RootLayout: Foreground message handler set up successfully');
 
@@ -480,6 +267,7 @@ export default function RootLayout() {
       </SafeAreaView>
       <Toast />
       <InAppNotification />
+      <NavigationChooser />
     </View>
   );
 }
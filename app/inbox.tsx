@@ -0,0 +1,303 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, SectionList, TouchableOpacity, ActivityIndicator, SafeAreaView, Alert } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import config from '../utils/config';
+import { setFleet, getLatestVehiclesFromInbox } from '../utils/fleet';
+import { showToast } from '../utils/toast';
+import { loadInbox, onInboxChange, markInboxEntryRead, markAllInboxEntriesRead, clearInbox, InboxEntry } from '../utils/inbox';
+import { shareVehicleEvent } from '../utils/share';
+import { parseVehicleEvent } from '../utils/vehicleEvent';
+
+interface InboxSection {
+  key: string;
+  placa: string;
+  day: string;
+  data: InboxEntry[];
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Format a timestamp as dd/mm/yyyy
+const formatDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}`;
+};
+
+// Format a timestamp as hh:mm
+const formatTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// Group entries by vehicle plate and day, keeping the newest groups first
+const groupEntries = (entries: InboxEntry[]): InboxSection[] => {
+  const sections = new Map<string, InboxSection>();
+
+  entries.forEach(entry => {
+    const placa = entry.placa || 'Sem placa';
+    const day = formatDay(entry.receivedAt);
+    const key = `${placa}|${day}`;
+
+    if (!sections.has(key)) {
+      sections.set(key, { key, placa, day, data: [] });
+    }
+    sections.get(key)!.data.push(entry);
+  });
+
+  return Array.from(sections.values());
+};
+
+export default function InboxScreen() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [entries, setEntries] = useState<InboxEntry[]>([]);
+
+  useEffect(() => {
+    loadInbox()
+      .then(setEntries)
+      .finally(() => setLoading(false));
+
+    return onInboxChange(setEntries);
+  }, []);
+
+  // Reopen the map with the original notification parameters
+  const openEntry = (entry: InboxEntry) => {
+    markInboxEntryRead(entry.id);
+    router.push({
+      pathname: '/map',
+      params: entry.params
+    });
+  };
+
+  // Show the latest position of every vehicle in the fleet map
+  const openFleetMap = () => {
+    const fleet = setFleet(getLatestVehiclesFromInbox(entries));
+    if (fleet.length === 0) {
+      showToast('Nenhum veículo com localização no histórico');
+      return;
+    }
+
+    router.push({
+      pathname: '/map',
+      params: { mode: 'fleet' }
+    });
+  };
+
+  // Forward the alert with its location
+  const shareEntry = (entry: InboxEntry) => {
+    const { event } = parseVehicleEvent(entry.params);
+    shareVehicleEvent(event).catch(error => {
+      console.error('Error sharing notification:', error);
+      showToast('Não foi possível compartilhar o alerta', { severity: 'error' });
+    });
+  };
+
+  const confirmClear = () => {
+    Alert.alert(
+      'Limpar histórico',
+      'Deseja remover todas as notificações do histórico?',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Limpar', style: 'destructive', onPress: () => clearInbox() }
+      ]
+    );
+  };
+
+  const unreadCount = entries.filter(entry => !entry.read).length;
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={config.colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>
+          Notificações{unreadCount > 0 ? ` (${unreadCount})` : ''}
+        </Text>
+        <TouchableOpacity
+          onPress={openFleetMap}
+          style={styles.headerButton}
+          disabled={entries.length === 0}
+        >
+          <Ionicons name="map-outline" size={22} color={entries.length === 0 ? 'rgba(255, 255, 255, 0.4)' : '#fff'} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => markAllInboxEntriesRead()}
+          style={styles.headerButton}
+          disabled={unreadCount === 0}
+        >
+          <Ionicons name="checkmark-done" size={24} color={unreadCount === 0 ? 'rgba(255, 255, 255, 0.4)' : '#fff'} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={confirmClear}
+          style={styles.headerButton}
+          disabled={entries.length === 0}
+        >
+          <Ionicons name="trash-outline" size={22} color={entries.length === 0 ? 'rgba(255, 255, 255, 0.4)' : '#fff'} />
+        </TouchableOpacity>
+      </View>
+
+      <SectionList
+        sections={groupEntries(entries)}
+        keyExtractor={entry => entry.id}
+        contentContainerStyle={entries.length === 0 ? styles.emptyContent : undefined}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="notifications-off-outline" size={48} color="#999" />
+            <Text style={styles.emptyText}>Nenhuma notificação recebida</Text>
+          </View>
+        }
+        renderSectionHeader={({ section }) => (
+          <View style={styles.sectionHeader}>
+            <Ionicons name="car" size={16} color={config.colors.primary} />
+            <Text style={styles.sectionPlaca}>{section.placa}</Text>
+            <Text style={styles.sectionDay}>{section.day}</Text>
+          </View>
+        )}
+        renderItem={({ item }) => (
+          <TouchableOpacity style={styles.entry} onPress={() => openEntry(item)}>
+            {!item.read && <View style={styles.unreadDot} />}
+            <View style={styles.entryContent}>
+              <Text style={[styles.entryTitle, !item.read && styles.entryTitleUnread]} numberOfLines={1}>
+                {item.title}
+              </Text>
+              {item.body ? (
+                <Text style={styles.entryBody} numberOfLines={2}>{item.body}</Text>
+              ) : null}
+              {item.params.end ? (
+                <Text style={styles.entryAddress} numberOfLines={1}>{item.params.end}</Text>
+              ) : null}
+            </View>
+            <View style={styles.entryAside}>
+              <Text style={styles.entryTime}>{formatTime(item.receivedAt)}</Text>
+              {item.params.latitude && item.params.longitude ? (
+                <TouchableOpacity onPress={() => shareEntry(item)} hitSlop={10} style={styles.entryShare}>
+                  <Ionicons name="share-social-outline" size={18} color={config.colors.primary} />
+                </TouchableOpacity>
+              ) : null}
+            </View>
+          </TouchableOpacity>
+        )}
+        stickySectionHeadersEnabled={true}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: config.colors.primary,
+    paddingHorizontal: 8,
+    paddingVertical: 12,
+  },
+  headerButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#e9eef2',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  sectionPlaca: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+    marginLeft: 8,
+  },
+  sectionDay: {
+    fontSize: 13,
+    color: '#666',
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: config.colors.primary,
+    marginRight: 10,
+  },
+  entryContent: {
+    flex: 1,
+    marginRight: 10,
+  },
+  entryTitle: {
+    fontSize: 15,
+    color: '#333',
+  },
+  entryTitleUnread: {
+    fontWeight: 'bold',
+  },
+  entryBody: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  entryAddress: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  entryTime: {
+    fontSize: 12,
+    color: '#999',
+  },
+  entryAside: {
+    alignItems: 'flex-end',
+  },
+  entryShare: {
+    marginTop: 8,
+  },
+  emptyContent: {
+    flexGrow: 1,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#999',
+  },
+});
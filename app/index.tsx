@@ -1,11 +1,15 @@
 import React from 'react';
 import { StyleSheet } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
 import WebViewScreen from '../components/WebViewScreen';
 
 export default function HomeScreen() {
+  // Portal path opened from a deep link (see app/+native-intent.tsx)
+  const { portalPath } = useLocalSearchParams<{ portalPath?: string }>();
+
   // The WebView component will handle getting the FCM token and showing the webview
   // It will also manage the splash screen, hiding it once the token is retrieved
-  return <WebViewScreen />;
+  return <WebViewScreen path={portalPath} />;
 }
 
 const styles = StyleSheet.create({
@@ -1,94 +1,110 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { View, StyleSheet, TouchableOpacity, Text, Platform, SafeAreaView, PermissionsAndroid } from 'react-native';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { View, StyleSheet, TouchableOpacity, Text, Platform, SafeAreaView, PermissionsAndroid, Alert } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import { MapView, Camera, PointAnnotation, setAccessToken } from '@maplibre/maplibre-react-native';
+import { MapView, Camera, PointAnnotation, ShapeSource, CircleLayer, SymbolLayer, LineLayer, FillLayer, UserLocation, Location, setAccessToken, CameraRef, ShapeSourceRef, MapViewRef } from '@maplibre/maplibre-react-native';
 import { Ionicons } from '@expo/vector-icons';
 import config from '../utils/config';
+import { parseVehicleEvent, hasVehicleCoordinates, getIgnitionLabel, getSpeedLabel, VehicleEvent } from '../utils/vehicleEvent';
+import { getFleet, onFleetChange, getCoordinateBounds, fleetToFeatureCollection, FleetVehicle } from '../utils/fleet';
+import { getMapStyleOptions, getMapStyleChain, loadPreferredMapStyle, savePreferredMapStyle, MapStyleOption, MAP_VARIANT_LABELS } from '../utils/mapStyles';
+import { navigateTo } from '../utils/navigation';
+import { getDistance, getBearing, getCompassPoint, formatDistance, GeoPosition } from '../utils/geo';
+import { reverseGeocode } from '../utils/geocoding';
+import { buildPortalEventPath } from '../utils/portal';
+import { shareVehicleEvent } from '../utils/share';
+import { showToast } from '../utils/toast';
+import { checkMapConnectivity, initOfflineMaps, OFFLINE_STYLE_URL } from '../utils/offlineMaps';
+import { loadGeofences, onGeofencesChange, geofencesToFeatureCollection, addGeofenceDraftPoint, getGeofenceOutline, Geofence, GeofenceDraft } from '../utils/geofences';
+import TrailPlayer from '../components/TrailPlayer';
+import VehicleDetailSheet from '../components/VehicleDetailSheet';
+import GeofenceEditor from '../components/GeofenceEditor';
 
 // Configuração do MapLibre
 setAccessToken(null); // MapLibre não precisa de token
 
-// API key for MapTiler (Free tier)
-const MAPTILER_API_KEY = 'BgWPMxygTe3Bgf6VpRQL'; // Free public key, replace with your own for production
-
-// Estilos básicos para o MapLibre usando OpenStreetMap
-const osmStyle = {
-  version: 8,
-  name: "OSM",
-  sources: {
-    osm: {
-      type: "raster",
-      tiles: [
-        "https://tile.openstreetmap.org/{z}/{x}/{y}.png",
-        "https://a.tile.openstreetmap.org/{z}/{x}/{y}.png",
-        "https://b.tile.openstreetmap.org/{z}/{x}/{y}.png",
-        "https://c.tile.openstreetmap.org/{z}/{x}/{y}.png"
-      ],
-      tileSize: 256,
-      attribution: "© OpenStreetMap Contributors",
-      maxzoom: 19
-    }
-  },
-  layers: [
-    {
-      id: "osm",
-      type: "raster",
-      source: "osm",
-      minzoom: 0,
-      maxzoom: 22
-    }
-  ]
-};
-
-// Estilo alternativo usando MapTiler
-const mapTilerStyle = {
-  version: 8,
-  name: "MapTiler",
-  sources: {
-    "openmaptiles": {
-      type: "vector",
-      url: `https://api.maptiler.com/tiles/v3/tiles.json?key=${MAPTILER_API_KEY}`
-    }
-  },
-  glyphs: `https://api.maptiler.com/fonts/{fontstack}/{range}.pbf?key=${MAPTILER_API_KEY}`,
-  sprite: `https://api.maptiler.com/maps/streets/sprite?key=${MAPTILER_API_KEY}`,
-  layers: []
-};
-
-// Usar estilo do MapTiler diretamente (mais completo e pronto)
-const mapTilerCompleteStyle = `https://api.maptiler.com/maps/streets/style.json?key=${MAPTILER_API_KEY}`;
-
 export default function MapScreen() {
   const router = useRouter();
   const params = useLocalSearchParams();
 
-  // Parâmetros passados pela notificação
-  const hasCoordinates = params.latitude && params.longitude;
+  // Modo frota: exibe todos os veículos definidos em utils/fleet
+  const isFleetMode = params.mode === 'fleet';
+  const [fleet, setFleet] = useState<FleetVehicle[]>(() => (isFleetMode ? getFleet() : []));
+  const [selectedVehicle, setSelectedVehicle] = useState<FleetVehicle | null>(null);
+  const fleetShape = useMemo(() => fleetToFeatureCollection(fleet), [fleet]);
+  const fleetBounds = useMemo(() => getCoordinateBounds(fleet), [fleet]);
+  const cameraRef = useRef<CameraRef>(null);
+  const mapRef = useRef<MapViewRef>(null);
+  const fleetSourceRef = useRef<ShapeSourceRef>(null);
 
-  // Parse coordinates, handling both period and comma as decimal separators
-  const parseCoordinate = (coord: string): number => {
-    if (!coord) return 0;
-    // Replace comma with period for proper parsing
-    return parseFloat(coord.replace(',', '.'));
-  };
-
-  const latitude = hasCoordinates ? parseCoordinate(params.latitude as string) : 0;
-  const longitude = hasCoordinates ? parseCoordinate(params.longitude as string) : 0;
+  // Parâmetros passados pela notificação
+  const { event: routeEvent } = useMemo(() => parseVehicleEvent(params), [params]);
+  const event: VehicleEvent = isFleetMode
+    ? selectedVehicle || { title: 'Frota', message: `${fleet.length} veículos no mapa` }
+    : routeEvent;
+  const hasCoordinates = !isFleetMode && hasVehicleCoordinates(event);
+
+  // Trajeto percorrido pelo veículo antes do evento
+  const trail = !isFleetMode && event.trail && event.trail.length > 1 ? event.trail : null;
+  const [trailIndex, setTrailIndex] = useState(() => (trail ? trail.length - 1 : 0));
+  const trailPoint = trail ? trail[Math.min(trailIndex, trail.length - 1)] : null;
+  const trailBounds = useMemo(() => (trail ? getCoordinateBounds(trail) : null), [trail]);
+  const trailShape = useMemo<GeoJSON.Feature<GeoJSON.LineString> | null>(() => (trail ? {
+    type: 'Feature',
+    properties: {},
+    geometry: {
+      type: 'LineString',
+      coordinates: trail.map(point => [point.longitude, point.latitude])
+    }
+  } : null), [trail]);
+  const latitude = event.latitude ?? 0;
+  const longitude = event.longitude ?? 0;
 
   console.log('Map coordinates:', { latitude, longitude });
-  const title = (params.title as string) || 'Localização';
-  const message = (params.message as string) || '';
+  const title = event.title;
 
-  // Additional params that might be passed from notification
-  const id = (params.id as string) || '';
-  const placa = (params.placa as string) || '';
-  const endereco = (params.end as string) || '';
-  const velocidade = (params.vel as string) || '';
-  const data = (params.dt as string) || '';
-  const ignicao = (params.ign as string) || 'false';
+  // Endereço enviado pela notificação ou buscado pela geocodificação
+  const [geocodedAddress, setGeocodedAddress] = useState<string | null>(null);
+  const endereco = event.endereco || geocodedAddress || '';
 
   // Estado do mapa
-  const [useOsmStyle, setUseOsmStyle] = useState(false); // Use MapTiler by default
+  // Estilos em ordem de fallback, começando pelo escolhido neste aparelho
+  const styleOptions = useMemo(() => getMapStyleOptions(), []);
+  const [styleChain, setStyleChain] = useState<MapStyleOption[]>(() => getMapStyleChain());
+  const [styleIndex, setStyleIndex] = useState(0);
+  const [showLayerPicker, setShowLayerPicker] = useState(false);
+
+  // Sem conexão: o mapa é exibido a partir do cache offline
+  const [isOffline, setIsOffline] = useState(false);
+
+  // Posição do usuário, exibida quando a permissão de localização é concedida
+  const [locationGranted, setLocationGranted] = useState(Platform.OS !== 'android');
+  const [userPosition, setUserPosition] = useState<GeoPosition | null>(null);
+
+  // Veículo de referência para distância e direção
+  const vehiclePosition = hasVehicleCoordinates(event) ? event : null;
+  const distanceToVehicle = userPosition && vehiclePosition ? getDistance(userPosition, vehiclePosition) : null;
+  const bearingToVehicle = userPosition && vehiclePosition ? getBearing(userPosition, vehiclePosition) : null;
+
+  // Cercas virtuais, desenhadas no modo de edição
+  const [geofences, setGeofences] = useState<Geofence[]>([]);
+  const [editingGeofences, setEditingGeofences] = useState(params.mode === 'geofences');
+  const [geofenceDraft, setGeofenceDraft] = useState<GeofenceDraft | null>(null);
+  const geofenceShape = useMemo(
+    () => geofencesToFeatureCollection(geofences.filter(fence => fence.id !== geofenceDraft?.id)),
+    [geofences, geofenceDraft?.id]
+  );
+  const draftShape = useMemo(() => (geofenceDraft ? geofencesToFeatureCollection([geofenceDraft]) : null), [geofenceDraft]);
+  const draftPointsShape = useMemo<GeoJSON.FeatureCollection<GeoJSON.Point> | null>(() => (geofenceDraft ? {
+    type: 'FeatureCollection',
+    features: geofenceDraft.points.map(point => ({
+      type: 'Feature',
+      properties: {},
+      geometry: { type: 'Point', coordinates: [point.longitude, point.latitude] }
+    }))
+  } : null), [geofenceDraft]);
+
+  // Sem veículo, trajeto ou frota a câmera fica livre para as cercas
+  const hasFreeCamera = !trail && !hasCoordinates && !(isFleetMode && fleetBounds);
 
   // Estado do modal de informações
   const [showInfoModal, setShowInfoModal] = useState(true);
@@ -98,11 +114,15 @@ export default function MapScreen() {
     const requestLocationPermission = async () => {
       try {
         if (Platform.OS === 'android') {
-          await PermissionsAndroid.requestMultiple([
+          const result = await PermissionsAndroid.requestMultiple([
             PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION,
             PermissionsAndroid.PERMISSIONS.ACCESS_COARSE_LOCATION
           ]);
           console.log("Permissões de localização solicitadas");
+          setLocationGranted(
+            result[PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION] === PermissionsAndroid.RESULTS.GRANTED ||
+            result[PermissionsAndroid.PERMISSIONS.ACCESS_COARSE_LOCATION] === PermissionsAndroid.RESULTS.GRANTED
+          );
         }
       } catch (err) {
         console.warn("Erro ao solicitar permissão:", err);
@@ -112,6 +132,69 @@ export default function MapScreen() {
     requestLocationPermission();
   }, []);
 
+  // Carregar o estilo escolhido pelo usuário
+  useEffect(() => {
+    loadPreferredMapStyle().then(styleId => {
+      if (styleId) {
+        setStyleChain(getMapStyleChain(styleId));
+        setStyleIndex(0);
+      }
+    });
+  }, []);
+
+  // Carregar as cercas virtuais
+  useEffect(() => {
+    loadGeofences().then(fences => {
+      setGeofences(fences);
+
+      // Sem veículo para enquadrar, mostrar as cercas
+      const bounds = hasFreeCamera ? getCoordinateBounds(fences.flatMap(fence => getGeofenceOutline(fence))) : null;
+      if (bounds) {
+        setTimeout(() => cameraRef.current?.fitBounds(bounds.ne, bounds.sw, [80, 40, 320, 40], 0), 500);
+      }
+    });
+
+    return onGeofencesChange(setGeofences);
+  }, []);
+
+  // Atualizar a frota quando o portal enviar outra lista com o mapa aberto
+  useEffect(() => {
+    if (!isFleetMode) return;
+
+    return onFleetChange(vehicles => {
+      setFleet(vehicles);
+      setSelectedVehicle(null);
+
+      const bounds = getCoordinateBounds(vehicles);
+      if (!bounds) return;
+      if (vehicles.length === 1) {
+        cameraRef.current?.setCamera({ centerCoordinate: bounds.ne, zoomLevel: 15, animationDuration: 500 });
+      } else {
+        cameraRef.current?.fitBounds(bounds.ne, bounds.sw, [80, 40, 220, 40], 500);
+      }
+    });
+  }, [isFleetMode]);
+
+  // Buscar o endereço quando a notificação não trouxe o campo `end`
+  useEffect(() => {
+    setGeocodedAddress(null);
+    if (event.endereco || event.latitude === undefined || event.longitude === undefined) return;
+
+    let active = true;
+    reverseGeocode({ latitude: event.latitude, longitude: event.longitude }).then(address => {
+      if (active) setGeocodedAddress(address);
+    });
+    return () => {
+      active = false;
+    };
+  }, [event.endereco, event.latitude, event.longitude]);
+
+  // Verificar conexão para usar os mapas salvos quando estiver offline
+  useEffect(() => {
+    initOfflineMaps();
+    checkMapConnectivity().then(online => setIsOffline(!online));
+  }, []);
+
   // Handle map load completion
   const onMapReady = () => {
     console.log('Map is ready');
@@ -123,54 +206,228 @@ export default function MapScreen() {
   const onMapError = () => {
     console.error('Erro ao carregar o mapa');
 
-    // If we're not using OSM style, try switching to it
-    if (!useOsmStyle) {
-      console.log('Tentando alternar para OpenStreetMap');
-      setUseOsmStyle(true);
+    // Offline, only the style of the offline packs can render
+    if (isOffline) {
+      console.log('Sem conexão, mantendo o mapa salvo');
+      return;
+    }
+
+    // Try the next style of the fallback chain
+    if (styleIndex < styleChain.length - 1) {
+      console.log('Tentando estilo alternativo:', styleChain[styleIndex + 1].id);
+      setStyleIndex(styleIndex + 1);
     }
   };
 
-  // Voltar para a tela anterior
-  const goBack = () => {
-    router.back();
+  // Trocar o estilo pelo seletor de camadas e lembrar a escolha
+  const selectStyle = (option: MapStyleOption) => {
+    setStyleChain(getMapStyleChain(option.id));
+    setStyleIndex(0);
+    setShowLayerPicker(false);
+    savePreferredMapStyle(option.id);
   };
 
-  // Formatações e textos auxiliares
-  const getVelocidadeText = () => {
-    if (!velocidade) return 'N/A';
-    return `${velocidade} km/h`;
+  // Handle taps on the fleet layers: zoom into clusters, select single vehicles
+  const onFleetPress = async (pressEvent: { features: GeoJSON.Feature[] }) => {
+    const feature = pressEvent.features[0];
+    if (!feature || feature.geometry.type !== 'Point') return;
+
+    const coordinates = feature.geometry.coordinates;
+
+    if (feature.properties?.cluster) {
+      try {
+        const zoomLevel = await fleetSourceRef.current?.getClusterExpansionZoom(feature);
+        cameraRef.current?.setCamera({
+          centerCoordinate: coordinates,
+          zoomLevel,
+          animationDuration: 500
+        });
+      } catch (error) {
+        console.warn('Erro ao expandir agrupamento:', error);
+      }
+      return;
+    }
+
+    const vehicle = fleet[feature.properties?.index];
+    if (vehicle) {
+      setSelectedVehicle(vehicle);
+      setShowInfoModal(true);
+      cameraRef.current?.flyTo(coordinates, 500);
+    }
+  };
+
+  // Enquadrar todos os veículos da frota
+  const fitFleet = () => {
+    if (!fleetBounds) return;
+    setSelectedVehicle(null);
+    cameraRef.current?.fitBounds(fleetBounds.ne, fleetBounds.sw, [80, 40, 220, 40], 500);
   };
 
-  const getIgnicaoText = () => {
-    if (!ignicao) return 'N/A';
-    return ignicao === 'true' ? 'Ligada' : 'Desligada';
+  // Atualizar a posição do usuário
+  const onUserLocationUpdate = (location: Location) => {
+    setUserPosition({
+      latitude: location.coords.latitude,
+      longitude: location.coords.longitude
+    });
   };
 
-  const formatData = () => {
-    if (!data) {
-      const now = new Date();
-      const dd = String(now.getDate()).padStart(2, '0');
-      const mm = String(now.getMonth() + 1).padStart(2, '0');
-      const yyyy = now.getFullYear();
-      return `${dd}/${mm}/${yyyy}`;
+  // Enquadrar o usuário e o veículo
+  const fitUserAndVehicle = () => {
+    if (!userPosition || !vehiclePosition) return;
+
+    const bounds = getCoordinateBounds([userPosition, vehiclePosition]);
+    if (bounds) {
+      cameraRef.current?.fitBounds(bounds.ne, bounds.sw, [80, 40, 280, 40], 500);
     }
-    return data;
+  };
+
+  // Abrir a posição do veículo em um app de navegação
+  // Toque longo sempre pergunta qual app usar
+  const navigateToVehicle = (forceChooser: boolean = false) => {
+    if (!vehiclePosition) return;
+
+    navigateTo(
+      {
+        latitude: vehiclePosition.latitude,
+        longitude: vehiclePosition.longitude,
+        label: vehiclePosition.placa || vehiclePosition.endereco || title
+      },
+      undefined,
+      forceChooser
+    );
+  };
+
+  // Adicionar o ponto tocado à cerca sendo desenhada
+  const onMapPress = (feature: GeoJSON.Feature) => {
+    if (!editingGeofences || !geofenceDraft || feature.geometry.type !== 'Point') return;
+
+    const [pressLongitude, pressLatitude] = feature.geometry.coordinates;
+    setGeofenceDraft(addGeofenceDraftPoint(geofenceDraft, { latitude: pressLatitude, longitude: pressLongitude }));
+  };
+
+  // Enquadrar a cerca aberta para edição
+  const focusGeofence = (fence: GeofenceDraft) => {
+    const bounds = getCoordinateBounds(getGeofenceOutline(fence));
+    if (bounds) {
+      cameraRef.current?.fitBounds(bounds.ne, bounds.sw, [80, 40, 320, 40], 500);
+    }
+  };
+
+  // Entrar ou sair do modo de edição de cercas
+  const toggleGeofenceEditing = () => {
+    setEditingGeofences(!editingGeofences);
+    setGeofenceDraft(null);
+    setShowLayerPicker(false);
+  };
+
+  // Compartilhar o alerta, com ou sem uma imagem do mapa com o marcador
+  const shareEvent = (imageUri?: string | null) => {
+    shareVehicleEvent(event, imageUri).catch(error => {
+      console.error('Erro ao compartilhar o alerta:', error);
+      showToast('Não foi possível compartilhar o alerta', { severity: 'error' });
+    });
+  };
+
+  const shareWithSnapshot = async () => {
+    let imageUri: string | null = null;
+    try {
+      imageUri = await mapRef.current?.takeSnap(true) || null;
+    } catch (error) {
+      console.warn('Erro ao capturar o mapa:', error);
+      showToast('Não foi possível capturar o mapa, compartilhando só o texto', { severity: 'warning' });
+    }
+
+    shareEvent(imageUri);
+  };
+
+  const shareVehicle = () => {
+    if (!vehiclePosition) return;
+
+    Alert.alert('Compartilhar alerta', 'O texto inclui placa, endereço, velocidade, data e um link do mapa.', [
+      { text: 'Cancelar', style: 'cancel' },
+      { text: 'Texto e link', onPress: () => shareEvent() },
+      { text: 'Com imagem do mapa', onPress: shareWithSnapshot },
+    ]);
+  };
+
+  // Página do alerta no portal, aberta na tela principal mantendo o token do aparelho
+  const portalPath = buildPortalEventPath(event);
+  const openInPortal = () => {
+    if (!portalPath) return;
+    router.navigate({ pathname: '/', params: { portalPath } });
+  };
+
+  // Voltar para a tela anterior
+  const goBack = () => {
+    router.back();
   };
 
   // Escolher qual estilo usar
-  const currentStyle = useOsmStyle ? osmStyle : mapTilerCompleteStyle;
+  const currentStyleOption = styleChain[styleIndex];
+  const currentStyle = isOffline && OFFLINE_STYLE_URL ? OFFLINE_STYLE_URL : currentStyleOption?.style;
 
   return (
     <View style={styles.container}>
       <MapView
+        ref={mapRef}
         style={styles.map}
         mapStyle={currentStyle}
         onDidFinishLoadingMap={onMapReady}
         onDidFailLoadingMap={onMapError}
+        onPress={onMapPress}
       >
-        {hasCoordinates && (
+        {locationGranted && (
+          <UserLocation
+            visible={true}
+            minDisplacement={10}
+            onUpdate={onUserLocationUpdate}
+          />
+        )}
+
+        {trail && trailPoint && trailShape && trailBounds && (
+          <>
+            <Camera
+              ref={cameraRef}
+              defaultSettings={{
+                bounds: {
+                  ...trailBounds,
+                  paddingTop: 80,
+                  paddingRight: 40,
+                  paddingBottom: 280,
+                  paddingLeft: 40
+                }
+              }}
+            />
+
+            <ShapeSource id="trail" shape={trailShape}>
+              <LineLayer
+                id="trailLine"
+                style={{
+                  lineColor: config.colors.primary,
+                  lineWidth: 4,
+                  lineOpacity: 0.8,
+                  lineCap: 'round',
+                  lineJoin: 'round'
+                }}
+              />
+            </ShapeSource>
+
+            <PointAnnotation
+              id="trailPoint"
+              coordinate={[trailPoint.longitude, trailPoint.latitude]}
+              title={title}
+            >
+              <View style={styles.markerContainer}>
+                <View style={styles.marker} />
+              </View>
+            </PointAnnotation>
+          </>
+        )}
+
+        {hasCoordinates && !trail && (
           <>
             <Camera
+              ref={cameraRef}
               defaultSettings={{
                 centerCoordinate: [longitude, latitude],
                 zoomLevel: 18
@@ -188,82 +445,256 @@ export default function MapScreen() {
             </PointAnnotation>
           </>
         )}
+
+        {hasFreeCamera && (
+          <Camera ref={cameraRef} />
+        )}
+
+        <ShapeSource id="geofences" shape={geofenceShape}>
+          <FillLayer
+            id="geofenceFill"
+            style={{
+              fillColor: config.colors.secondary,
+              fillOpacity: editingGeofences ? 0.2 : 0.1
+            }}
+          />
+          <LineLayer
+            id="geofenceOutline"
+            style={{
+              lineColor: config.colors.secondary,
+              lineWidth: 2,
+              lineOpacity: 0.8
+            }}
+          />
+          <SymbolLayer
+            id="geofenceNames"
+            style={{
+              textField: ['get', 'name'],
+              textSize: 12,
+              textColor: '#333',
+              textHaloColor: '#fff',
+              textHaloWidth: 2
+            }}
+          />
+        </ShapeSource>
+
+        {draftShape && draftPointsShape && (
+          <>
+            <ShapeSource id="geofenceDraft" shape={draftShape}>
+              <FillLayer
+                id="geofenceDraftFill"
+                style={{
+                  fillColor: config.colors.primary,
+                  fillOpacity: 0.25
+                }}
+              />
+              <LineLayer
+                id="geofenceDraftOutline"
+                style={{
+                  lineColor: config.colors.primary,
+                  lineWidth: 2,
+                  lineDasharray: [2, 2]
+                }}
+              />
+            </ShapeSource>
+            <ShapeSource id="geofenceDraftPoints" shape={draftPointsShape}>
+              <CircleLayer
+                id="geofenceDraftVertices"
+                style={{
+                  circleColor: config.colors.primary,
+                  circleRadius: 6,
+                  circleStrokeWidth: 2,
+                  circleStrokeColor: '#fff'
+                }}
+              />
+            </ShapeSource>
+          </>
+        )}
+
+        {isFleetMode && fleetBounds && (
+          <>
+            <Camera
+              ref={cameraRef}
+              defaultSettings={fleet.length === 1 ? {
+                centerCoordinate: fleetBounds.ne,
+                zoomLevel: 15
+              } : {
+                bounds: {
+                  ...fleetBounds,
+                  paddingTop: 80,
+                  paddingRight: 40,
+                  paddingBottom: 220,
+                  paddingLeft: 40
+                }
+              }}
+            />
+
+            <ShapeSource
+              id="fleet"
+              ref={fleetSourceRef}
+              shape={fleetShape}
+              cluster={true}
+              clusterRadius={50}
+              clusterMaxZoomLevel={14}
+              onPress={onFleetPress}
+            >
+              <CircleLayer
+                id="fleetClusters"
+                filter={['has', 'point_count']}
+                style={{
+                  circleColor: config.colors.primary,
+                  circleOpacity: 0.85,
+                  circleRadius: ['step', ['get', 'point_count'], 16, 10, 20, 50, 26],
+                  circleStrokeWidth: 3,
+                  circleStrokeColor: '#fff'
+                }}
+              />
+              <SymbolLayer
+                id="fleetClusterCount"
+                filter={['has', 'point_count']}
+                style={{
+                  textField: ['get', 'point_count_abbreviated'],
+                  textSize: 13,
+                  textColor: '#fff',
+                  textAllowOverlap: true
+                }}
+              />
+              <CircleLayer
+                id="fleetVehicles"
+                filter={['!', ['has', 'point_count']]}
+                style={{
+                  circleColor: config.colors.primary,
+                  circleRadius: 8,
+                  circleStrokeWidth: 3,
+                  circleStrokeColor: '#fff'
+                }}
+              />
+              <SymbolLayer
+                id="fleetPlates"
+                filter={['!', ['has', 'point_count']]}
+                style={{
+                  textField: ['get', 'placa'],
+                  textSize: 12,
+                  textColor: '#333',
+                  textHaloColor: '#fff',
+                  textHaloWidth: 2,
+                  textAnchor: 'top',
+                  textOffset: [0, 1.2]
+                }}
+              />
+            </ShapeSource>
+          </>
+        )}
       </MapView>
 
-      {/* Botão de voltar */}
+      {/* Botões de histórico e voltar */}
       <SafeAreaView style={styles.overlay}>
+        {isFleetMode && fleetBounds && (
+          <TouchableOpacity style={[styles.backButton, styles.overlayButtonSpacing]} onPress={fitFleet}>
+            <Ionicons name="scan-outline" size={22} color="#fff" />
+          </TouchableOpacity>
+        )}
+        {userPosition && vehiclePosition && (
+          <TouchableOpacity style={[styles.backButton, styles.overlayButtonSpacing]} onPress={fitUserAndVehicle}>
+            <Ionicons name="locate-outline" size={22} color="#fff" />
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={[styles.backButton, styles.overlayButtonSpacing, editingGeofences && styles.activeButton]}
+          onPress={toggleGeofenceEditing}
+        >
+          <Ionicons name="shapes-outline" size={22} color="#fff" />
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.backButton, styles.overlayButtonSpacing]} onPress={() => router.push('/offline-maps')}>
+          <Ionicons name="cloud-download-outline" size={22} color="#fff" />
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.backButton, styles.overlayButtonSpacing]} onPress={() => router.push('/inbox')}>
+          <Ionicons name="notifications-outline" size={22} color="#fff" />
+        </TouchableOpacity>
+        {styleOptions.length > 1 && (
+          <TouchableOpacity style={[styles.backButton, styles.overlayButtonSpacing]} onPress={() => setShowLayerPicker(!showLayerPicker)}>
+            <Ionicons name="layers-outline" size={22} color="#fff" />
+          </TouchableOpacity>
+        )}
         <TouchableOpacity style={styles.backButton} onPress={goBack}>
           <Ionicons name="close" size={24} color="#fff" />
         </TouchableOpacity>
       </SafeAreaView>
 
-      {/* Modal de informações no rodapé */}
-      {showInfoModal ? (
-        <View style={styles.infoModalContainer}>
-          <View style={styles.infoModal}>
-            <View style={styles.infoModalHeader}>
-              <Ionicons name="notifications-outline" size={18} color={config.colors.primary} style={styles.infoIcon} />
-              <Text style={styles.infoModalTitle}>
-                {title ? title : 'Detalhes da Notificação'}
+      {/* Seletor de camadas */}
+      {showLayerPicker && (
+        <View style={styles.layerPicker}>
+          {styleOptions.map(option => (
+            <TouchableOpacity key={option.id} style={styles.layerOption} onPress={() => selectStyle(option)}>
+              <Ionicons
+                name={option.id === currentStyleOption?.id ? 'radio-button-on' : 'radio-button-off'}
+                size={18}
+                color={config.colors.primary}
+              />
+              <Text style={styles.layerOptionText}>
+                {MAP_VARIANT_LABELS[option.variant]} · {option.providerName}
               </Text>
-              <TouchableOpacity onPress={() => setShowInfoModal(false)}>
-                <Ionicons name="chevron-down" size={24} color={config.colors.primary} />
-              </TouchableOpacity>
+            </TouchableOpacity>
+          ))}
+          {currentStyleOption?.attribution ? (
+            <Text style={styles.layerAttribution}>{currentStyleOption.attribution}</Text>
+          ) : null}
+        </View>
+      )}
+
+      {isOffline && (
+        <View style={styles.offlineBadge} pointerEvents="none">
+          <Ionicons name="cloud-offline-outline" size={16} color="#fff" />
+          <Text style={styles.offlineBadgeText}>Sem conexão · exibindo mapa salvo</Text>
+        </View>
+      )}
+
+      {/* Editor de cercas ou modal de informações no rodapé */}
+      {editingGeofences ? (
+        <GeofenceEditor
+          fences={geofences}
+          draft={geofenceDraft}
+          onDraftChange={setGeofenceDraft}
+          onFocusFence={focusGeofence}
+          onClose={toggleGeofenceEditing}
+        />
+      ) : showInfoModal ? (
+        <VehicleDetailSheet
+          event={event}
+          endereco={endereco}
+          onMinimize={() => setShowInfoModal(false)}
+          onShare={vehiclePosition ? shareVehicle : undefined}
+          onNavigate={vehiclePosition ? navigateToVehicle : undefined}
+          onOpenPortal={portalPath ? openInPortal : undefined}
+        >
+          {trail && trailPoint ? (
+            <View style={styles.trailInfo}>
+              <View style={styles.infoRow}>
+                <Ionicons name="time-outline" size={18} color={config.colors.primary} style={styles.infoIcon} />
+                <Text style={styles.infoText}>
+                  {trailPoint.dataText || `Ponto ${trailIndex + 1}`}
+                  {'  ·  '}{getSpeedLabel(trailPoint)}
+                  {'  ·  '}Ignição: {getIgnitionLabel(trailPoint)}
+                </Text>
+              </View>
+              <TrailPlayer points={trail} index={trailIndex} onIndexChange={setTrailIndex} />
             </View>
-            <View style={styles.infoModalContent}>
-
-               {message ? (
-                <View style={styles.infoRow}>
-                  <Text style={styles.infoText}>{message.replace('Mot:', ' Mot:')}</Text>
-                </View>
-              ) : null}
-
-              {/* Display vehicle information if available  and no message */}
-              
-              {!message && placa ? (
-                <View style={styles.infoRow}>
-                  <Ionicons name="car" size={18} color={config.colors.primary} style={styles.infoIcon} />
-                  <Text style={styles.infoText}>Placa: {placa}</Text>
-                </View>
-              ) : null}
-
-              {!message && endereco ? (
-                <View style={styles.infoRow}>
-                  <Ionicons name="location" size={18} color={config.colors.primary} style={styles.infoIcon} />
-                  <Text style={styles.infoText}>{endereco}</Text>
-                </View>
-              ) : null}
-
-              {!message && velocidade ? (
-                <View style={styles.infoRow}>
-                  <Ionicons name="speedometer" size={18} color={config.colors.primary} style={styles.infoIcon} />
-                  <Text style={styles.infoText}>Velocidade: {velocidade} km/h</Text>
-                </View>
-              ) : null}
-
-              {!message && ignicao ? (
-                <View style={styles.infoRow}>
-                  <Ionicons name="key" size={18} color={config.colors.primary} style={styles.infoIcon} />
-                  <Text style={styles.infoText}>
-                    Ignição: {
-                      ignicao === '1' || ignicao === 'true' ? 'Ligada' :
-                      ignicao === '0' || ignicao === 'false' ? 'Desligada' :
-                      ignicao === '4' ? 'Desligada' :
-                      `Estado ${ignicao}`
-                    }
-                  </Text>
-                </View>
-              ) : null}
-
-              {!message && data ? (
-                <View style={styles.infoRow}>
-                  <Ionicons name="calendar" size={18} color={config.colors.primary} style={styles.infoIcon} />
-                  <Text style={styles.infoText}>Data: {data}</Text>
-                </View>
-              ) : null}
+          ) : null}
+
+          {distanceToVehicle !== null && bearingToVehicle !== null ? (
+            <View style={styles.infoRow}>
+              <Ionicons
+                name="navigate"
+                size={18}
+                color={config.colors.primary}
+                style={[styles.infoIcon, { transform: [{ rotate: `${bearingToVehicle - 45}deg` }] }]}
+              />
+              <Text style={styles.infoText}>
+                Você está a {formatDistance(distanceToVehicle)} · {getCompassPoint(bearingToVehicle)} ({Math.round(bearingToVehicle)}°)
+              </Text>
             </View>
-          </View>
-        </View>
+          ) : null}
+        </VehicleDetailSheet>
       ) : (
         <TouchableOpacity
           style={styles.infoButton}
@@ -311,6 +742,59 @@ const styles = StyleSheet.create({
     elevation: 5,
     flexDirection: 'row',
   },
+  layerPicker: {
+    position: 'absolute',
+    top: Platform.OS === 'android' ? 100 : 76,
+    right: 10,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    minWidth: 200,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+    elevation: 5,
+  },
+  layerOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  layerOptionText: {
+    fontSize: 14,
+    color: '#333',
+    marginLeft: 8,
+  },
+  layerAttribution: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 4,
+    marginBottom: 4,
+  },
+  offlineBadge: {
+    position: 'absolute',
+    top: Platform.OS === 'android' ? 100 : 76,
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  offlineBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    marginLeft: 6,
+  },
+  overlayButtonSpacing: {
+    marginRight: 10,
+  },
+  activeButton: {
+    backgroundColor: config.colors.secondary,
+  },
 
   buttonText: {
     color: '#fff',
@@ -355,39 +839,10 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 20,
   },
-  infoModalContainer: {
-    position: 'absolute',
-    bottom: 20,
-    left: 15,
-    right: 15,
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  infoModal: {
-    backgroundColor: '#fff',
-    borderRadius: 20,
-    width: '100%',
-    paddingHorizontal: 20,
-    paddingVertical: 15,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 5 },
-    shadowOpacity: 0.34,
-    shadowRadius: 6.27,
-    elevation: 10,
-  },
-  infoModalHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 10,
-  },
-  infoModalTitle: {
-    fontSize: 18,
-    fontWeight: '500',
-    color: config.colors.primary,
-    flex: 1,
-  },
-  infoModalContent: {
+  trailInfo: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+    marginBottom: 8,
   },
   infoRow: {
     flexDirection: 'row',
@@ -0,0 +1,362 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, TextInput, SafeAreaView, Alert, ActivityIndicator } from 'react-native';
+import { useRouter } from 'expo-router';
+import { MapView, MapViewRef } from '@maplibre/maplibre-react-native';
+import { Ionicons } from '@expo/vector-icons';
+import config from '../utils/config';
+import { showToast } from '../utils/toast';
+import {
+  OFFLINE_STYLE_URL,
+  OfflineRegion,
+  OfflineRegionBounds,
+  initOfflineMaps,
+  listOfflineRegions,
+  onOfflineRegionsChange,
+  downloadOfflineRegion,
+  deleteOfflineRegion,
+  getOfflineStorageUsage,
+  formatStorageSize,
+} from '../utils/offlineMaps';
+
+// Detail levels offered for user regions
+const DETAIL_LEVELS = [
+  { label: 'Básico', minZoom: 8, maxZoom: 13 },
+  { label: 'Ruas', minZoom: 8, maxZoom: 15 },
+  { label: 'Detalhado', minZoom: 8, maxZoom: 17 },
+];
+
+// Packs need a provider with a style.json, e.g. MapTiler with MAP_API_KEY set
+const OFFLINE_AVAILABLE = !!OFFLINE_STYLE_URL;
+
+export default function OfflineMapsScreen() {
+  const router = useRouter();
+  const mapRef = useRef<MapViewRef>(null);
+  const [regions, setRegions] = useState<OfflineRegion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState(false);
+  const [regionName, setRegionName] = useState('');
+  const [detailLevel, setDetailLevel] = useState(1);
+
+  useEffect(() => {
+    initOfflineMaps()
+      .then(listOfflineRegions)
+      .then(setRegions)
+      .finally(() => setLoading(false));
+
+    return onOfflineRegionsChange(setRegions);
+  }, []);
+
+  // Download the area currently visible on the map
+  const downloadVisibleArea = async () => {
+    if (!mapRef.current || !OFFLINE_AVAILABLE) return;
+
+    try {
+      setDownloading(true);
+      const [ne, sw] = await mapRef.current.getVisibleBounds();
+      const bounds: OfflineRegionBounds = [[ne[0], ne[1]], [sw[0], sw[1]]];
+      const level = DETAIL_LEVELS[detailLevel];
+
+      await downloadOfflineRegion(
+        regionName.trim() || `Região ${regions.filter(region => region.kind === 'user').length + 1}`,
+        bounds,
+        level.minZoom,
+        level.maxZoom
+      );
+      setRegionName('');
+      showToast('Download iniciado', { severity: 'success' });
+    } catch (error) {
+      console.error('OfflineMapsScreen: Error downloading region:', error);
+      showToast('Não foi possível baixar a região', { severity: 'error' });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const confirmDelete = (region: OfflineRegion) => {
+    Alert.alert(
+      'Remover região',
+      `Deseja remover "${region.label}" do armazenamento?`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Remover', style: 'destructive', onPress: () => deleteOfflineRegion(region.name) }
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Mapas offline</Text>
+      </View>
+
+      {OFFLINE_AVAILABLE ? (
+        <View style={styles.mapContainer}>
+          <MapView ref={mapRef} style={styles.map} mapStyle={OFFLINE_STYLE_URL || undefined} />
+          <View style={styles.mapHint} pointerEvents="none">
+            <Text style={styles.mapHintText}>Posicione o mapa sobre a área que deseja salvar</Text>
+          </View>
+        </View>
+      ) : (
+        <View style={[styles.mapContainer, styles.unavailable]}>
+          <Ionicons name="cloud-offline-outline" size={40} color="#999" />
+          <Text style={styles.unavailableTitle}>Download de mapas indisponível</Text>
+          <Text style={styles.unavailableText}>
+            O provedor de mapas configurado neste aplicativo não permite salvar regiões para uso offline.
+          </Text>
+        </View>
+      )}
+
+      <View style={[styles.downloadPanel, !OFFLINE_AVAILABLE && styles.downloadPanelDisabled]}>
+        <TextInput
+          style={styles.input}
+          placeholder="Nome da região (opcional)"
+          placeholderTextColor="#999"
+          value={regionName}
+          onChangeText={setRegionName}
+          editable={OFFLINE_AVAILABLE}
+        />
+        <View style={styles.levelRow}>
+          {DETAIL_LEVELS.map((level, index) => (
+            <TouchableOpacity
+              key={level.label}
+              style={[styles.levelChip, index === detailLevel && styles.levelChipSelected]}
+              onPress={() => setDetailLevel(index)}
+              disabled={!OFFLINE_AVAILABLE}
+            >
+              <Text style={[styles.levelChipText, index === detailLevel && styles.levelChipTextSelected]}>
+                {level.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TouchableOpacity style={styles.downloadButton} onPress={downloadVisibleArea} disabled={downloading || !OFFLINE_AVAILABLE}>
+          {downloading ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <>
+              <Ionicons name="cloud-download-outline" size={20} color="#fff" />
+              <Text style={styles.downloadButtonText}>Baixar área visível</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.storageRow}>
+        <Text style={styles.storageText}>
+          {regions.length} {regions.length === 1 ? 'região salva' : 'regiões salvas'}
+        </Text>
+        <Text style={styles.storageText}>{formatStorageSize(getOfflineStorageUsage(regions))}</Text>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={styles.listLoading} color={config.colors.primary} />
+      ) : (
+        <FlatList
+          data={regions}
+          keyExtractor={region => region.name}
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>Nenhuma região salva</Text>
+          }
+          renderItem={({ item }) => (
+            <View style={styles.region}>
+              <Ionicons
+                name={item.kind === 'alert' ? 'notifications-outline' : 'map-outline'}
+                size={20}
+                color={config.colors.primary}
+              />
+              <View style={styles.regionContent}>
+                <Text style={styles.regionLabel} numberOfLines={1}>{item.label}</Text>
+                <Text style={styles.regionDetails}>
+                  {item.complete ? 'Concluído' : `Baixando ${item.percentage}%`} · {formatStorageSize(item.size)}
+                </Text>
+                {!item.complete && (
+                  <View style={styles.progressTrack}>
+                    <View style={[styles.progressFill, { width: `${item.percentage}%` }]} />
+                  </View>
+                )}
+              </View>
+              <TouchableOpacity onPress={() => confirmDelete(item)} style={styles.deleteButton}>
+                <Ionicons name="trash-outline" size={20} color="#d32f2f" />
+              </TouchableOpacity>
+            </View>
+          )}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: config.colors.primary,
+    paddingHorizontal: 8,
+    paddingVertical: 12,
+  },
+  headerButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  mapContainer: {
+    height: 220,
+  },
+  map: {
+    flex: 1,
+  },
+  unavailable: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    backgroundColor: '#e9eef2',
+  },
+  unavailableTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#555',
+    marginTop: 8,
+  },
+  unavailableText: {
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  mapHint: {
+    position: 'absolute',
+    top: 8,
+    left: 8,
+    right: 8,
+    alignItems: 'center',
+  },
+  mapHintText: {
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    color: '#fff',
+    fontSize: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  downloadPanel: {
+    backgroundColor: '#fff',
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  downloadPanelDisabled: {
+    opacity: 0.5,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#333',
+  },
+  levelRow: {
+    flexDirection: 'row',
+    marginVertical: 10,
+  },
+  levelChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: config.colors.primary,
+    marginRight: 8,
+  },
+  levelChipSelected: {
+    backgroundColor: config.colors.primary,
+  },
+  levelChipText: {
+    fontSize: 13,
+    color: config.colors.primary,
+  },
+  levelChipTextSelected: {
+    color: '#fff',
+  },
+  downloadButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: config.colors.primary,
+    borderRadius: 6,
+    paddingVertical: 10,
+  },
+  downloadButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  storageRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#e9eef2',
+  },
+  storageText: {
+    fontSize: 13,
+    color: '#555',
+  },
+  listLoading: {
+    marginTop: 20,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#999',
+    marginTop: 20,
+  },
+  region: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  regionContent: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  regionLabel: {
+    fontSize: 15,
+    color: '#333',
+  },
+  regionDetails: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#ddd',
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: config.colors.primary,
+  },
+  deleteButton: {
+    padding: 6,
+  },
+});
@@ -1,25 +1,97 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, Switch, TouchableOpacity, ActivityIndicator, SafeAreaView, ScrollView } from 'react-native';
+import { View, Text, StyleSheet, Switch, TouchableOpacity, ActivityIndicator, SafeAreaView, ScrollView, Platform, AppState, TextInput } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
 
 import { requestNotificationPermission } from '../utils/messaging';
 import { showNotificationPermissionToast } from '../utils/toast';
 import { configureForegroundNotifications } from '../utils/foregroundNotifications';
+import {
+  getNotificationChannelStatuses,
+  openNotificationChannelSettings,
+  openDoNotDisturbAccessSettings,
+  NotificationChannelStatus,
+} from '../utils/notificationChannels';
+import { ALERT_CATEGORIES, AlertCategoryId } from '../utils/alertCategories';
+import {
+  loadAlertPreferences,
+  updateAlertPreferences,
+  onAlertPreferencesChange,
+  loadPortalAlertFilters,
+  onPortalAlertFiltersChange,
+  PortalAlertFilters,
+  normalizePlate,
+  parseTimeOfDay,
+  AlertPreferences,
+  DEFAULT_ALERT_PREFERENCES,
+} from '../utils/alertPreferences';
+import { loadGeofences, onGeofencesChange, Geofence } from '../utils/geofences';
+import { loadUnknownTelemetryCodes, clearUnknownTelemetryCodes, UnknownTelemetryCode } from '../utils/telemetry';
+
+// Summary of the sound, vibration and Do Not Disturb settings of a channel
+const describeChannel = (channel: NotificationChannelStatus) => {
+  if (!channel.enabled) return 'Disabled';
+
+  const parts = [channel.sound ? 'Sound' : 'Silent', channel.vibration ? 'vibration' : 'no vibration'];
+  if (channel.bypassDnd) {
+    parts.push('overrides Do Not Disturb');
+  }
+  return parts.join(' · ');
+};
 
 export default function SettingsScreen() {
+  const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [permissionGranted, setPermissionGranted] = useState(false);
+  const [channels, setChannels] = useState<NotificationChannelStatus[]>([]);
+  const [preferences, setPreferences] = useState<AlertPreferences>(DEFAULT_ALERT_PREFERENCES);
+  const [portalFilters, setPortalFilters] = useState<PortalAlertFilters | null>(null);
+  const [geofences, setGeofences] = useState<Geofence[]>([]);
+  const [unknownCodes, setUnknownCodes] = useState<UnknownTelemetryCode[]>([]);
+  // Text being typed, saved when the field loses focus
+  const [quietStartText, setQuietStartText] = useState('');
+  const [quietEndText, setQuietEndText] = useState('');
+  const [minSpeedText, setMinSpeedText] = useState('');
+  const [plateText, setPlateText] = useState('');
+
+  // Keep the typed text in sync with the saved preferences
+  useEffect(() => {
+    setQuietStartText(preferences.quietHours.start);
+    setQuietEndText(preferences.quietHours.end);
+    setMinSpeedText(preferences.minSpeed > 0 ? String(preferences.minSpeed) : '');
+  }, [preferences]);
 
   // Load settings when component mounts
   useEffect(() => {
     loadSettings();
+    const unsubscribePreferences = onAlertPreferencesChange(setPreferences);
+    const unsubscribePortalFilters = onPortalAlertFiltersChange(setPortalFilters);
+    const unsubscribeGeofences = onGeofencesChange(setGeofences);
     checkPermission();
+    loadChannels();
+
+    // Channels are changed in the system settings, reload them when coming back
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        loadChannels();
+      }
+    });
+    return () => {
+      subscription.remove();
+      unsubscribePreferences();
+      unsubscribePortalFilters();
+      unsubscribeGeofences();
+    };
   }, []);
 
   // Load settings
   const loadSettings = async () => {
     try {
       setLoading(true);
-      // No settings to load anymore
+      setPreferences(await loadAlertPreferences());
+      setPortalFilters(await loadPortalAlertFilters());
+      setGeofences(await loadGeofences());
+      setUnknownCodes(await loadUnknownTelemetryCodes());
     } catch (error) {
       console.error('Error loading settings:', error);
     } finally {
@@ -27,13 +99,62 @@ export default function SettingsScreen() {
     }
   };
 
+  // Forget the unknown tracker codes once they were reported
+  const clearUnknownCodes = async () => {
+    await clearUnknownTelemetryCodes();
+    setUnknownCodes([]);
+  };
+
+  // Load the Android notification channels
+  const loadChannels = async () => {
+    try {
+      setChannels(await getNotificationChannelStatuses());
+    } catch (error) {
+      console.error('Error loading notification channels:', error);
+    }
+  };
+
   // Check notification permission
   const checkPermission = async () => {
     const granted = await requestNotificationPermission(false);
     setPermissionGranted(granted);
   };
 
-  // No longer need to toggle notification display mode as notifications always show in the status bar
+  // Save the quiet hours, reverting invalid times
+  const saveQuietHours = () => {
+    const start = parseTimeOfDay(quietStartText) !== null ? quietStartText.trim() : preferences.quietHours.start;
+    const end = parseTimeOfDay(quietEndText) !== null ? quietEndText.trim() : preferences.quietHours.end;
+    setQuietStartText(start);
+    setQuietEndText(end);
+    updateAlertPreferences({ quietHours: { ...preferences.quietHours, start, end } });
+  };
+
+  // Save the minimum speed of speeding alerts, an empty field shows all of them
+  const saveMinSpeed = () => {
+    const speed = parseInt(minSpeedText, 10);
+    updateAlertPreferences({ minSpeed: isNaN(speed) || speed < 0 ? 0 : speed });
+  };
+
+  // Mute or unmute an alert type
+  const toggleCategory = (category: AlertCategoryId, enabled: boolean) => {
+    const mutedCategories = preferences.mutedCategories.filter(item => item !== category);
+    updateAlertPreferences({ mutedCategories: enabled ? mutedCategories : [...mutedCategories, category] });
+  };
+
+  // Mute the alerts of the typed plate
+  const addMutedPlate = () => {
+    const plate = normalizePlate(plateText);
+    if (!plate) return;
+
+    if (!preferences.mutedPlates.includes(plate)) {
+      updateAlertPreferences({ mutedPlates: [...preferences.mutedPlates, plate] });
+    }
+    setPlateText('');
+  };
+
+  const removeMutedPlate = (plate: string) => {
+    updateAlertPreferences({ mutedPlates: preferences.mutedPlates.filter(item => item !== plate) });
+  };
 
   // Request notification permission
   const requestPermission = async () => {
@@ -85,6 +206,239 @@ export default function SettingsScreen() {
             </Text>
           </View>
         </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Alert Preferences</Text>
+
+          <View style={styles.settingItem}>
+            <View style={styles.settingTextContainer}>
+              <Text style={styles.settingTitle}>Show alerts as pop-up</Text>
+              <Text style={styles.settingDescription}>
+                When off, alerts received with the app open appear as a short message at the bottom of the screen
+              </Text>
+            </View>
+            <Switch
+              value={preferences.foregroundDisplay === 'modal'}
+              onValueChange={value => updateAlertPreferences({ foregroundDisplay: value ? 'modal' : 'toast' })}
+            />
+          </View>
+
+          <View style={styles.settingItem}>
+            <View style={styles.settingTextContainer}>
+              <Text style={styles.settingTitle}>Quiet hours</Text>
+              <Text style={styles.settingDescription}>
+                Alerts are not shown in this period, except panic alerts
+              </Text>
+            </View>
+            <Switch
+              value={preferences.quietHours.enabled}
+              onValueChange={enabled => updateAlertPreferences({ quietHours: { ...preferences.quietHours, enabled } })}
+            />
+          </View>
+
+          {preferences.quietHours.enabled && (
+            <View style={styles.inputRow}>
+              <Text style={styles.inputLabel}>From</Text>
+              <TextInput
+                style={styles.timeInput}
+                value={quietStartText}
+                onChangeText={setQuietStartText}
+                onEndEditing={saveQuietHours}
+                placeholder="22:00"
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+              />
+              <Text style={styles.inputLabel}>to</Text>
+              <TextInput
+                style={styles.timeInput}
+                value={quietEndText}
+                onChangeText={setQuietEndText}
+                onEndEditing={saveQuietHours}
+                placeholder="07:00"
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+              />
+            </View>
+          )}
+
+          <View style={[styles.settingItem, styles.lastSettingItem]}>
+            <View style={styles.settingTextContainer}>
+              <Text style={styles.settingTitle}>Minimum speed for speeding alerts</Text>
+              <Text style={styles.settingDescription}>Slower speeding alerts are not shown, leave empty to show all</Text>
+            </View>
+            <TextInput
+              style={styles.speedInput}
+              value={minSpeedText}
+              onChangeText={setMinSpeedText}
+              onEndEditing={saveMinSpeed}
+              placeholder="km/h"
+              keyboardType="number-pad"
+              maxLength={3}
+            />
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Alert Types</Text>
+
+          {Object.values(ALERT_CATEGORIES).map(category => (
+            <View key={category.id} style={styles.settingItem}>
+              <View style={styles.settingTextContainer}>
+                <Text style={styles.settingTitle}>{category.label}</Text>
+              </View>
+              <Switch
+                value={!preferences.mutedCategories.includes(category.id)}
+                onValueChange={enabled => toggleCategory(category.id, enabled)}
+              />
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Muted Vehicles</Text>
+          <Text style={styles.sectionDescription}>
+            Alerts of these vehicles are kept in the notification history but not shown.
+          </Text>
+
+          <View style={styles.inputRow}>
+            <TextInput
+              style={styles.plateInput}
+              value={plateText}
+              onChangeText={setPlateText}
+              onSubmitEditing={addMutedPlate}
+              placeholder="Plate"
+              autoCapitalize="characters"
+              autoCorrect={false}
+              returnKeyType="done"
+            />
+            <TouchableOpacity style={styles.permissionButton} onPress={addMutedPlate}>
+              <Text style={styles.permissionButtonText}>Mute</Text>
+            </TouchableOpacity>
+          </View>
+
+          {preferences.mutedPlates.map(plate => (
+            <View key={plate} style={styles.settingItem}>
+              <Text style={styles.settingTitle}>{plate}</Text>
+              <TouchableOpacity onPress={() => removeMutedPlate(plate)} hitSlop={10}>
+                <Ionicons name="close-circle-outline" size={22} color="#dc3545" />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Geofences</Text>
+          <Text style={styles.sectionDescription}>
+            Alerts of vehicles leaving these areas are shown as geofence exits.
+          </Text>
+
+          {geofences.map(fence => (
+            <View key={fence.id} style={styles.settingItem}>
+              <Text style={styles.settingTitle}>{fence.name}</Text>
+            </View>
+          ))}
+
+          <TouchableOpacity
+            style={styles.permissionButton}
+            onPress={() => router.push({ pathname: '/map', params: { mode: 'geofences' } })}
+          >
+            <Text style={styles.permissionButtonText}>Edit on Map</Text>
+          </TouchableOpacity>
+        </View>
+
+        {portalFilters && portalFilters.updatedAt !== null && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Portal Filters</Text>
+            <Text style={styles.sectionDescription}>
+              Set in your portal alert settings and applied together with the preferences above.
+            </Text>
+
+            <View style={styles.settingItem}>
+              <Text style={styles.settingTitle}>Muted vehicles</Text>
+              <Text style={styles.settingDescription}>
+                {portalFilters.mutedPlates.length > 0 ? portalFilters.mutedPlates.join(', ') : 'None'}
+              </Text>
+            </View>
+            <View style={styles.settingItem}>
+              <Text style={styles.settingTitle}>Muted alert types</Text>
+              <Text style={styles.settingDescription}>
+                {portalFilters.mutedCategories.length > 0
+                  ? portalFilters.mutedCategories.map(id => ALERT_CATEGORIES[id].label).join(', ')
+                  : 'None'}
+              </Text>
+            </View>
+            <View style={[styles.settingItem, styles.lastSettingItem]}>
+              <Text style={styles.settingTitle}>Quiet hours</Text>
+              <Text style={styles.settingDescription}>
+                {portalFilters.quietHours.enabled
+                  ? `${portalFilters.quietHours.start} - ${portalFilters.quietHours.end}`
+                  : 'Off'}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {Platform.OS === 'android' && channels.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Alert Channels</Text>
+            <Text style={styles.sectionDescription}>
+              Change the sound, vibration and Do Not Disturb behavior of each alert type in the system settings.
+            </Text>
+
+            {channels.map(channel => (
+              <TouchableOpacity
+                key={channel.id}
+                style={styles.settingItem}
+                onPress={() => openNotificationChannelSettings(channel.id)}
+              >
+                <View style={styles.settingTextContainer}>
+                  <Text style={styles.settingTitle}>{channel.name}</Text>
+                  <Text style={styles.settingDescription}>{channel.description}</Text>
+                  <Text style={[styles.channelStatus, !channel.enabled && styles.channelStatusDisabled]}>
+                    {describeChannel(channel)}
+                  </Text>
+                </View>
+                <Ionicons name="open-outline" size={20} color="#2196F3" />
+              </TouchableOpacity>
+            ))}
+
+            <TouchableOpacity style={styles.settingItem} onPress={openDoNotDisturbAccessSettings}>
+              <View style={styles.settingTextContainer}>
+                <Text style={styles.settingTitle}>Do Not Disturb Access</Text>
+                <Text style={styles.settingDescription}>
+                  Allow this app to override Do Not Disturb, so panic alerts are heard while it is on
+                </Text>
+              </View>
+              <Ionicons name="open-outline" size={20} color="#2196F3" />
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {unknownCodes.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Unknown Tracker Codes</Text>
+            <Text style={styles.sectionDescription}>
+              Codes received without a description. Send them to support so they can be added to the telemetry dictionary.
+            </Text>
+
+            {unknownCodes.map(item => (
+              <View key={`${item.field}|${item.modelo || ''}|${item.code}`} style={styles.settingItem}>
+                <View style={styles.settingTextContainer}>
+                  <Text style={styles.settingTitle}>
+                    {item.field === 'ign' ? 'Ignition' : 'Event'} {item.code}
+                  </Text>
+                  <Text style={styles.settingDescription}>
+                    {item.modelo ? `${item.modelo} · ` : ''}Last received {new Date(item.lastSeenAt).toLocaleString()}
+                  </Text>
+                </View>
+              </View>
+            ))}
+
+            <TouchableOpacity style={styles.permissionButton} onPress={clearUnknownCodes}>
+              <Text style={styles.permissionButtonText}>Clear</Text>
+            </TouchableOpacity>
+          </View>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -131,6 +485,65 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     color: '#333',
   },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: -8,
+    marginBottom: 8,
+  },
+  channelStatus: {
+    fontSize: 13,
+    color: '#2196F3',
+    marginTop: 4,
+  },
+  channelStatusDisabled: {
+    color: '#dc3545',
+  },
+  lastSettingItem: {
+    borderBottomWidth: 0,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  timeInput: {
+    width: 70,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    fontSize: 16,
+    textAlign: 'center',
+    color: '#333',
+  },
+  speedInput: {
+    width: 70,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    fontSize: 16,
+    textAlign: 'center',
+    color: '#333',
+  },
+  plateInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    fontSize: 16,
+    color: '#333',
+  },
   settingItem: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,325 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ScrollView, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import config from '../utils/config';
+import { formatDistance } from '../utils/geo';
+import {
+  saveGeofence,
+  deleteGeofence,
+  isGeofenceDraftValid,
+  Geofence,
+  GeofenceDraft,
+  GeofenceType,
+  GEOFENCE_RADII,
+} from '../utils/geofences';
+
+interface GeofenceEditorProps {
+  fences: Geofence[];
+  draft: GeofenceDraft | null;
+  onDraftChange: (draft: GeofenceDraft | null) => void;
+  // Called when a geofence is opened for editing, to frame it on the map
+  onFocusFence: (fence: GeofenceDraft) => void;
+  onClose: () => void;
+}
+
+// Short description of the shape of a geofence
+const describeFence = (fence: GeofenceDraft) =>
+  fence.type === 'circle' ? `Círculo · raio de ${formatDistance(fence.radius)}` : `Polígono · ${fence.points.length} pontos`;
+
+/**
+ * Bottom panel of the map geofence editing mode
+ * Lists the geofences and edits one at a time; the points of the draft are added by tapping the map
+ */
+export default function GeofenceEditor({ fences, draft, onDraftChange, onFocusFence, onClose }: GeofenceEditorProps) {
+  const [saving, setSaving] = useState(false);
+
+  const startDraft = (type: GeofenceType) => {
+    onDraftChange({ name: '', type, points: [], radius: 500 });
+  };
+
+  const editFence = (fence: Geofence) => {
+    onDraftChange({ ...fence });
+    onFocusFence(fence);
+  };
+
+  const confirmDelete = (fence: Geofence) => {
+    Alert.alert('Excluir cerca', `Excluir a cerca "${fence.name}"?`, [
+      { text: 'Cancelar', style: 'cancel' },
+      {
+        text: 'Excluir',
+        style: 'destructive',
+        onPress: () => {
+          deleteGeofence(fence.id);
+          if (draft?.id === fence.id) onDraftChange(null);
+        },
+      },
+    ]);
+  };
+
+  const save = async () => {
+    if (!draft || !isGeofenceDraftValid(draft)) return;
+
+    setSaving(true);
+    try {
+      await saveGeofence(draft);
+      onDraftChange(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Step through the offered radii
+  const changeRadius = (direction: 1 | -1) => {
+    if (!draft) return;
+    const index = GEOFENCE_RADII.findIndex(radius => radius >= draft.radius);
+    const current = index === -1 ? GEOFENCE_RADII.length - 1 : index;
+    const next = GEOFENCE_RADII[Math.min(Math.max(current + direction, 0), GEOFENCE_RADII.length - 1)];
+    onDraftChange({ ...draft, radius: next });
+  };
+
+  const undoPoint = () => {
+    if (!draft) return;
+    onDraftChange({ ...draft, points: draft.points.slice(0, -1) });
+  };
+
+  if (draft) {
+    const hint = draft.type === 'circle'
+      ? (draft.points.length === 0 ? 'Toque no mapa para posicionar o centro' : 'Toque no mapa para mover o centro')
+      : (draft.points.length < 3 ? `Toque no mapa para adicionar os vértices (mínimo 3)` : 'Toque no mapa para adicionar mais vértices');
+
+    return (
+      <View style={styles.panel}>
+        <View style={styles.header}>
+          <Ionicons name="shapes-outline" size={18} color={config.colors.primary} style={styles.headerIcon} />
+          <Text style={styles.title}>{draft.id ? 'Editar cerca' : 'Nova cerca'}</Text>
+        </View>
+
+        <Text style={styles.hint}>{hint}</Text>
+
+        <TextInput
+          style={styles.nameInput}
+          value={draft.name}
+          onChangeText={name => onDraftChange({ ...draft, name })}
+          placeholder="Nome (ex.: Depósito Norte)"
+          returnKeyType="done"
+        />
+
+        {draft.type === 'circle' ? (
+          <View style={styles.controlRow}>
+            <Text style={styles.controlLabel}>Raio</Text>
+            <TouchableOpacity style={styles.stepButton} onPress={() => changeRadius(-1)}>
+              <Ionicons name="remove" size={18} color={config.colors.primary} />
+            </TouchableOpacity>
+            <Text style={styles.radiusText}>{formatDistance(draft.radius)}</Text>
+            <TouchableOpacity style={styles.stepButton} onPress={() => changeRadius(1)}>
+              <Ionicons name="add" size={18} color={config.colors.primary} />
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.controlRow}>
+            <Text style={styles.controlLabel}>{draft.points.length} pontos</Text>
+            <TouchableOpacity
+              style={[styles.textButton, draft.points.length === 0 && styles.disabled]}
+              onPress={undoPoint}
+              disabled={draft.points.length === 0}
+            >
+              <Ionicons name="arrow-undo-outline" size={16} color={config.colors.primary} />
+              <Text style={styles.textButtonText}>Desfazer</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.footer}>
+          <TouchableOpacity style={styles.textButton} onPress={() => onDraftChange(null)}>
+            <Text style={styles.textButtonText}>Cancelar</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.primaryButton, (!isGeofenceDraftValid(draft) || saving) && styles.disabled]}
+            onPress={save}
+            disabled={!isGeofenceDraftValid(draft) || saving}
+          >
+            <Text style={styles.primaryButtonText}>Salvar</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.panel}>
+      <View style={styles.header}>
+        <Ionicons name="shapes-outline" size={18} color={config.colors.primary} style={styles.headerIcon} />
+        <Text style={styles.title}>Cercas virtuais</Text>
+        <TouchableOpacity onPress={onClose}>
+          <Ionicons name="chevron-down" size={24} color={config.colors.primary} />
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.hint}>
+        Os alertas dos veículos que saírem destas áreas serão destacados.
+      </Text>
+
+      <ScrollView style={styles.list}>
+        {fences.length === 0 ? (
+          <Text style={styles.emptyText}>Nenhuma cerca cadastrada</Text>
+        ) : fences.map(fence => (
+          <TouchableOpacity key={fence.id} style={styles.fenceRow} onPress={() => editFence(fence)}>
+            <View style={styles.fenceText}>
+              <Text style={styles.fenceName}>{fence.name}</Text>
+              <Text style={styles.fenceDescription}>{describeFence(fence)}</Text>
+            </View>
+            <TouchableOpacity onPress={() => confirmDelete(fence)} hitSlop={10}>
+              <Ionicons name="trash-outline" size={20} color="#dc3545" />
+            </TouchableOpacity>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity style={styles.textButton} onPress={() => startDraft('circle')}>
+          <Ionicons name="ellipse-outline" size={16} color={config.colors.primary} />
+          <Text style={styles.textButtonText}>Nova circular</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.textButton} onPress={() => startDraft('polygon')}>
+          <Ionicons name="git-merge-outline" size={16} color={config.colors.primary} />
+          <Text style={styles.textButtonText}>Nova poligonal</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 16,
+    paddingBottom: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 10,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  headerIcon: {
+    marginRight: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 12,
+  },
+  list: {
+    maxHeight: 200,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  fenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  fenceText: {
+    flex: 1,
+  },
+  fenceName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+  },
+  fenceDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  nameInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    fontSize: 15,
+    color: '#333',
+  },
+  controlRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  controlLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: config.colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  radiusText: {
+    minWidth: 70,
+    textAlign: 'center',
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  textButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  textButtonText: {
+    color: config.colors.primary,
+    fontWeight: '500',
+    fontSize: 14,
+    marginLeft: 4,
+  },
+  primaryButton: {
+    backgroundColor: config.colors.primary,
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    marginLeft: 8,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    fontSize: 14,
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+});
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Switch, SafeAreaView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import config from '../utils/config';
+import { showToast } from '../utils/toast';
+import {
+  NavigationApp,
+  NavigationDestination,
+  openNavigationApp,
+  saveDefaultNavigationApp,
+  setNavigationChooserHandler,
+} from '../utils/navigation';
+
+/**
+ * Bottom sheet asking which app to navigate with
+ * Rendered once at the root of the app and opened through utils/navigation
+ */
+export default function NavigationChooser() {
+  const [destination, setDestination] = useState<NavigationDestination | null>(null);
+  const [apps, setApps] = useState<NavigationApp[]>([]);
+  const [remember, setRemember] = useState(false);
+
+  useEffect(() => {
+    setNavigationChooserHandler((nextDestination, installedApps) => {
+      setApps(installedApps);
+      setRemember(false);
+      setDestination(nextDestination);
+    });
+
+    return () => {
+      setNavigationChooserHandler(null);
+    };
+  }, []);
+
+  const close = () => setDestination(null);
+
+  const choose = async (app: NavigationApp) => {
+    if (!destination) return;
+
+    close();
+    if (remember) {
+      await saveDefaultNavigationApp(app.id);
+    }
+
+    const opened = await openNavigationApp(app, destination);
+    if (!opened) {
+      showToast(`Não foi possível abrir o ${app.name}`, { severity: 'error' });
+    }
+  };
+
+  return (
+    <Modal transparent={true} visible={destination !== null} animationType="slide" onRequestClose={close}>
+      <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={close}>
+        <SafeAreaView style={styles.sheet}>
+          <TouchableOpacity activeOpacity={1}>
+            <Text style={styles.title}>Navegar com</Text>
+            {destination?.label ? (
+              <Text style={styles.subtitle} numberOfLines={1}>{destination.label}</Text>
+            ) : null}
+
+            {apps.map(app => (
+              <TouchableOpacity key={app.id} style={styles.option} onPress={() => choose(app)}>
+                <Ionicons name="navigate-outline" size={20} color={config.colors.primary} />
+                <Text style={styles.optionText}>{app.name}</Text>
+                <Ionicons name="chevron-forward" size={18} color="#999" />
+              </TouchableOpacity>
+            ))}
+
+            <View style={styles.rememberRow}>
+              <Text style={styles.rememberText}>Lembrar minha escolha</Text>
+              <Switch
+                value={remember}
+                onValueChange={setRemember}
+                trackColor={{ true: config.colors.primary, false: '#ccc' }}
+              />
+            </View>
+
+            <TouchableOpacity style={styles.cancelButton} onPress={close}>
+              <Text style={styles.cancelText}>Cancelar</Text>
+            </TouchableOpacity>
+          </TouchableOpacity>
+        </SafeAreaView>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '500',
+    color: config.colors.primary,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 12,
+  },
+  rememberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+  },
+  rememberText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  cancelText: {
+    color: '#3b80b8',
+    fontWeight: '500',
+    fontSize: 15,
+  },
+});
@@ -0,0 +1,150 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, PanResponder, LayoutChangeEvent } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import config from '../utils/config';
+import { TrailPoint } from '../utils/vehicleEvent';
+
+const THUMB_SIZE = 18;
+
+interface TrailPlayerProps {
+  points: TrailPoint[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  // Time between two positions while playing (ms)
+  stepInterval?: number;
+}
+
+/**
+ * Playback controls for a route trail
+ * Renders a play/pause button and a scrubber that selects the current position
+ */
+export default function TrailPlayer({ points, index, onIndexChange, stepInterval = 500 }: TrailPlayerProps) {
+  const [playing, setPlaying] = useState(false);
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  // Refs keep the pan responder callbacks in sync with the latest props
+  const trackWidthRef = useRef(0);
+  const lengthRef = useRef(points.length);
+  const onIndexChangeRef = useRef(onIndexChange);
+  lengthRef.current = points.length;
+  onIndexChangeRef.current = onIndexChange;
+
+  const lastIndex = Math.max(points.length - 1, 0);
+
+  // Advance one position at each step while playing
+  useEffect(() => {
+    if (!playing) return;
+
+    if (index >= lastIndex) {
+      setPlaying(false);
+      return;
+    }
+
+    const timeout = setTimeout(() => onIndexChange(index + 1), stepInterval);
+    return () => clearTimeout(timeout);
+  }, [playing, index, lastIndex, stepInterval, onIndexChange]);
+
+  const seek = (x: number) => {
+    const width = trackWidthRef.current;
+    if (width <= 0) return;
+
+    const ratio = Math.min(Math.max(x / width, 0), 1);
+    onIndexChangeRef.current(Math.round(ratio * (lengthRef.current - 1)));
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: (e) => {
+        setPlaying(false);
+        seek(e.nativeEvent.locationX);
+      },
+      onPanResponderMove: (e) => seek(e.nativeEvent.locationX),
+    })
+  ).current;
+
+  const onTrackLayout = (e: LayoutChangeEvent) => {
+    trackWidthRef.current = e.nativeEvent.layout.width;
+    setTrackWidth(e.nativeEvent.layout.width);
+  };
+
+  const togglePlay = () => {
+    // Restart from the beginning when the end was reached
+    if (!playing && index >= lastIndex) {
+      onIndexChange(0);
+    }
+    setPlaying(!playing);
+  };
+
+  const progress = lastIndex > 0 ? index / lastIndex : 0;
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.playButton} onPress={togglePlay}>
+        <Ionicons name={playing ? 'pause' : 'play'} size={18} color="#fff" />
+      </TouchableOpacity>
+
+      <View style={styles.trackTouchArea} onLayout={onTrackLayout} {...panResponder.panHandlers}>
+        <View style={styles.track} pointerEvents="none">
+          <View style={[styles.trackFill, { width: progress * trackWidth }]} />
+        </View>
+        <View
+          pointerEvents="none"
+          style={[styles.thumb, { left: progress * trackWidth - THUMB_SIZE / 2 }]}
+        />
+      </View>
+
+      <Text style={styles.counter}>{index + 1}/{points.length}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  playButton: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    backgroundColor: config.colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  trackTouchArea: {
+    flex: 1,
+    height: 34,
+    justifyContent: 'center',
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#ddd',
+    overflow: 'hidden',
+  },
+  trackFill: {
+    height: 4,
+    backgroundColor: config.colors.primary,
+  },
+  thumb: {
+    position: 'absolute',
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    backgroundColor: config.colors.primary,
+    borderWidth: 3,
+    borderColor: '#fff',
+    elevation: 3,
+  },
+  counter: {
+    marginLeft: 12,
+    fontSize: 12,
+    color: '#666',
+    minWidth: 44,
+    textAlign: 'right',
+  },
+});
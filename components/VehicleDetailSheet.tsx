@@ -0,0 +1,332 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, PanResponder, Animated } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import config from '../utils/config';
+import { getIgnitionLabel, getSpeedLabel, getEventLabel, splitMessageDriver, VehicleEvent } from '../utils/vehicleEvent';
+
+// Vertical drag distance that expands, collapses or minimizes the sheet
+const DRAG_THRESHOLD = 40;
+
+interface VehicleDetailSheetProps {
+  event: VehicleEvent;
+  // Address sent in the push or found by reverse geocoding
+  endereco?: string;
+  onMinimize: () => void;
+  onShare?: () => void;
+  // Long press always asks which navigation app to use
+  onNavigate?: (forceChooser: boolean) => void;
+  onOpenPortal?: () => void;
+  // Content shown right below the header, e.g. the trail player
+  children?: React.ReactNode;
+}
+
+interface DetailField {
+  key: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  label: string;
+  value: string;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Format the time since a date, e.g. "há 5 min"
+const formatRelativeTime = (date: Date, now: number) => {
+  const minutes = Math.round((now - date.getTime()) / 60000);
+  if (minutes < 1) return 'agora';
+  if (minutes < 60) return `há ${minutes} min`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `há ${hours} h`;
+
+  const days = Math.floor(hours / 24);
+  return days === 1 ? 'há 1 dia' : `há ${days} dias`;
+};
+
+// Format the event date, falling back to the text sent by the server
+const formatEventDate = (event: VehicleEvent, now: number) => {
+  if (!event.data) return event.dataText || '';
+
+  const date = event.data;
+  const text = `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  return `${text} · ${formatRelativeTime(date, now)}`;
+};
+
+/**
+ * Vehicle details at the bottom of the map
+ * Shows a summary line when collapsed and every field of the event when expanded;
+ * dragging the header up expands it, dragging it down collapses or minimizes it.
+ */
+export default function VehicleDetailSheet({
+  event,
+  endereco,
+  onMinimize,
+  onShare,
+  onNavigate,
+  onOpenPortal,
+  children,
+}: VehicleDetailSheetProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const dragY = useRef(new Animated.Value(0)).current;
+
+  // Refs keep the pan responder callbacks in sync with the latest state
+  const expandedRef = useRef(expanded);
+  const onMinimizeRef = useRef(onMinimize);
+  expandedRef.current = expanded;
+  onMinimizeRef.current = onMinimize;
+
+  // Keep the relative time up to date
+  useEffect(() => {
+    if (!event.data) return;
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, [event.data]);
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onMoveShouldSetPanResponder: (_, gesture) => Math.abs(gesture.dy) > 5,
+      // Follow the finger downwards, resist upwards
+      onPanResponderMove: (_, gesture) => dragY.setValue(gesture.dy > 0 ? gesture.dy : gesture.dy / 3),
+      onPanResponderRelease: (_, gesture) => {
+        if (gesture.dy < -DRAG_THRESHOLD) {
+          setExpanded(true);
+        } else if (gesture.dy > DRAG_THRESHOLD) {
+          if (expandedRef.current) {
+            setExpanded(false);
+          } else {
+            onMinimizeRef.current();
+          }
+        }
+        Animated.spring(dragY, { toValue: 0, useNativeDriver: true }).start();
+      },
+      onPanResponderTerminate: () => {
+        Animated.spring(dragY, { toValue: 0, useNativeDriver: true }).start();
+      },
+    })
+  ).current;
+
+  // The driver is shown as a field, the rest of the message as text
+  const { text: messageText } = splitMessageDriver(event.message);
+
+  const fields: DetailField[] = [
+    event.placa && { key: 'placa', icon: 'car', label: 'Placa', value: event.placa },
+    event.motorista && { key: 'motorista', icon: 'person', label: 'Motorista', value: event.motorista },
+    endereco && { key: 'endereco', icon: 'location', label: 'Endereço', value: endereco },
+    event.velocidade !== undefined && { key: 'velocidade', icon: 'speedometer', label: 'Velocidade', value: getSpeedLabel(event) },
+    event.ignicao && { key: 'ignicao', icon: 'key', label: 'Ignição', value: getIgnitionLabel(event) },
+    event.eventoCode && { key: 'evento', icon: 'warning', label: 'Evento', value: getEventLabel(event) },
+    (event.data || event.dataText) && { key: 'data', icon: 'calendar', label: 'Data', value: formatEventDate(event, now) },
+    event.id && { key: 'id', icon: 'pricetag', label: 'ID do evento', value: event.id },
+  ].filter((field): field is DetailField => !!field);
+
+  // Short line shown while collapsed
+  const summary = [
+    event.placa,
+    event.velocidade !== undefined ? getSpeedLabel(event) : null,
+    event.ignicao ? `Ignição ${getIgnitionLabel(event).toLowerCase()}` : null,
+    event.data ? formatRelativeTime(event.data, now) : null,
+  ].filter(Boolean).join('  ·  ');
+
+  const hasActions = !!(onShare || onNavigate || onOpenPortal);
+
+  return (
+    <Animated.View style={[styles.container, { transform: [{ translateY: dragY }] }]}>
+      <View style={styles.sheet}>
+        <View {...panResponder.panHandlers}>
+          <TouchableOpacity style={styles.handleArea} onPress={() => setExpanded(!expanded)}>
+            <View style={styles.handle} />
+          </TouchableOpacity>
+          <View style={styles.header}>
+            <Ionicons name="notifications-outline" size={18} color={config.colors.primary} style={styles.icon} />
+            <Text style={styles.title} numberOfLines={expanded ? undefined : 1}>
+              {event.title || 'Detalhes da Notificação'}
+            </Text>
+            <TouchableOpacity onPress={() => setExpanded(!expanded)} hitSlop={8}>
+              <Ionicons name={expanded ? 'chevron-down' : 'chevron-up'} size={24} color={config.colors.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={onMinimize} hitSlop={8} style={styles.minimizeButton}>
+              <Ionicons name="close" size={22} color="#999" />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {children}
+
+        {expanded ? (
+          <ScrollView style={styles.details}>
+            {messageText ? <Text style={styles.message}>{messageText}</Text> : null}
+
+            {fields.map(field => (
+              <View key={field.key} style={styles.fieldRow}>
+                <Ionicons name={field.icon} size={18} color={config.colors.primary} style={styles.icon} />
+                <View style={styles.fieldText}>
+                  <Text style={styles.fieldLabel}>{field.label}</Text>
+                  <Text style={styles.fieldValue} selectable>{field.value}</Text>
+                </View>
+              </View>
+            ))}
+          </ScrollView>
+        ) : (
+          <TouchableOpacity onPress={() => setExpanded(true)}>
+            {summary ? <Text style={styles.summary} numberOfLines={1}>{summary}</Text> : null}
+            {messageText ? <Text style={styles.message} numberOfLines={2}>{messageText}</Text> : null}
+            {endereco ? (
+              <View style={styles.summaryAddress}>
+                <Ionicons name="location" size={14} color="#666" style={styles.icon} />
+                <Text style={styles.summaryAddressText} numberOfLines={1}>{endereco}</Text>
+              </View>
+            ) : null}
+          </TouchableOpacity>
+        )}
+
+        {hasActions ? (
+          <View style={styles.actions}>
+            {onShare ? (
+              <TouchableOpacity style={styles.secondaryAction} onPress={onShare}>
+                <Ionicons name="share-social-outline" size={18} color={config.colors.primary} />
+                <Text style={styles.secondaryActionText}>Compartilhar</Text>
+              </TouchableOpacity>
+            ) : null}
+            {onOpenPortal ? (
+              <TouchableOpacity style={styles.secondaryAction} onPress={onOpenPortal}>
+                <Ionicons name="open-outline" size={18} color={config.colors.primary} />
+                <Text style={styles.secondaryActionText}>Portal</Text>
+              </TouchableOpacity>
+            ) : null}
+            {onNavigate ? (
+              <TouchableOpacity
+                style={styles.primaryAction}
+                onPress={() => onNavigate(false)}
+                onLongPress={() => onNavigate(true)}
+              >
+                <Ionicons name="navigate" size={18} color="#fff" />
+                <Text style={styles.primaryActionText}>Navegar</Text>
+              </TouchableOpacity>
+            ) : null}
+          </View>
+        ) : null}
+      </View>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    bottom: 20,
+    left: 15,
+    right: 15,
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderRadius: 20,
+    paddingHorizontal: 20,
+    paddingBottom: 15,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 5 },
+    shadowOpacity: 0.34,
+    shadowRadius: 6.27,
+    elevation: 10,
+  },
+  handleArea: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  handle: {
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#ddd',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  icon: {
+    marginRight: 10,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '500',
+    color: config.colors.primary,
+  },
+  minimizeButton: {
+    marginLeft: 12,
+  },
+  summary: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+    marginBottom: 4,
+  },
+  summaryAddress: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  summaryAddressText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+  },
+  message: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 8,
+  },
+  details: {
+    maxHeight: 320,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 6,
+  },
+  fieldText: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    color: '#999',
+  },
+  fieldValue: {
+    fontSize: 14,
+    color: '#333',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  secondaryAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: config.colors.primary,
+    borderRadius: 20,
+    paddingVertical: 9,
+    paddingHorizontal: 12,
+    marginRight: 8,
+  },
+  secondaryActionText: {
+    color: config.colors.primary,
+    fontWeight: '500',
+    marginLeft: 6,
+  },
+  primaryAction: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: config.colors.primary,
+    borderRadius: 20,
+    paddingVertical: 10,
+  },
+  primaryActionText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+});
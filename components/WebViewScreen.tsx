@@ -9,15 +9,30 @@ import {
   Text,
   RefreshControl,
   ScrollView,
-  Linking,
   Platform
 } from 'react-native';
 import { WebView } from 'react-native-webview';
-import { getFCMToken, onTokenRefresh } from '../utils/messaging';
+import type { ShouldStartLoadRequest } from 'react-native-webview/lib/WebViewTypes';
+import { useRouter } from 'expo-router';
+import { getFCMToken, onTokenRefresh, onMessage } from '../utils/messaging';
+import { createInboxEntry } from '../utils/inbox';
 import * as SplashScreen from 'expo-splash-screen';
 import { Ionicons } from '@expo/vector-icons';
 import { showToast } from '../utils/toast';
 import config from '../utils/config';
+import {
+  BRIDGE_VERSION,
+  BRIDGE_REQUEST_TIMEOUT,
+  BridgeEvent,
+  BridgeHandshake,
+  BridgeResponse,
+  buildBridgeMessageScript,
+  getBridgeHandshake,
+  handleBridgeRequest,
+} from '../utils/bridge';
+import '../utils/bridgeHandlers';
+import { parseContactLink } from '../utils/contact';
+import { buildPortalUrl, isAllowedPortalHostname } from '../utils/portal';
 
 // Keep the splash screen visible until explicitly hidden
 SplashScreen.preventAutoHideAsync().catch(() => {
@@ -26,156 +41,12 @@ SplashScreen.preventAutoHideAsync().catch(() => {
 
 interface WebViewScreenProps {
   baseUrl?: string;
+  // Portal path or URL to open instead of the base URL, e.g. from a deep link or push
+  path?: string;
 }
 
 // This WebView is restricted to only load URLs from the allowed domains (wefleet.com.br)
 
-/**
- * Opens WhatsApp with the given phone number and message
- * @param params - Object containing phone number and optional message
- */
-const openWhatsApp = (params: { phone: string; message?: string }) => {
-  try {
-    const { phone, message = '' } = params;
-    // Format phone number (remove non-numeric characters)
-    const formattedPhone = phone.replace(/\D/g, '');
-
-    // Create WhatsApp URL
-    const whatsappUrl = `whatsapp://send?phone=${formattedPhone}&text=${encodeURIComponent(message)}`;
-
-    // Open WhatsApp
-    Linking.canOpenURL(whatsappUrl)
-      .then(supported => {
-        if (supported) {
-          return Linking.openURL(whatsappUrl);
-        } else {
-          // WhatsApp is not installed, try web version
-          const webWhatsappUrl = `https://api.whatsapp.com/send?phone=${formattedPhone}&text=${encodeURIComponent(message)}`;
-          return Linking.openURL(webWhatsappUrl);
-        }
-      })
-      .catch(error => {
-        console.error('Error opening WhatsApp:', error);
-        showToast('Could not open WhatsApp. Please make sure it is installed.');
-      });
-  } catch (error) {
-    console.error('Error in openWhatsApp:', error);
-    showToast('Failed to open WhatsApp');
-  }
-};
-
-/**
- * Opens Waze navigation to a specific location
- * @param params - Object containing location coordinates and optional location name
- */
-const openWaze = (params: { lat: string | number; lng: string | number; name?: string }) => {
-  try {
-    const { lat, lng, name = '' } = params;
-
-    // Create Waze URL with coordinates and optional name
-    let wazeUrl = `waze://?ll=${lat},${lng}`;
-
-    // Add location name if provided
-    if (name) {
-      wazeUrl += `&navigate=yes&z=10&q=${encodeURIComponent(name)}`;
-    } else {
-      wazeUrl += '&navigate=yes';
-    }
-
-    // Try to open Waze app
-    Linking.canOpenURL(wazeUrl)
-      .then(supported => {
-        if (supported) {
-          return Linking.openURL(wazeUrl);
-        } else {
-          // Waze is not installed, open in browser instead
-          const webWazeUrl = `https://waze.com/ul?ll=${lat},${lng}&navigate=yes${name ? '&q=' + encodeURIComponent(name) : ''}`;
-          showToast('Waze app not installed, opening in browser');
-          return Linking.openURL(webWazeUrl);
-        }
-      })
-      .catch(error => {
-        console.error('Error opening Waze:', error);
-        showToast('Could not open Waze. Please make sure it is installed.');
-      });
-  } catch (error) {
-    console.error('Error in openWaze:', error);
-    showToast('Failed to open Waze');
-  }
-};
-
-/**
- * Opens a social media app or website
- * @param params - Object containing social media type and optional username/url
- */
-const openSocial = (params: { type: string; username?: string; url?: string }) => {
-  try {
-    const { type, username, url } = params;
-    let socialUrl = '';
-
-    // Determine URL based on social media type
-    switch (type.toLowerCase()) {
-      case 'facebook':
-        socialUrl = username
-          ? `fb://profile/${username}`
-          : url || 'https://www.facebook.com';
-        break;
-      case 'instagram':
-        socialUrl = username
-          ? `instagram://user?username=${username}`
-          : url || 'https://www.instagram.com';
-        break;
-      case 'twitter':
-      case 'x':
-        socialUrl = username
-          ? `twitter://user?screen_name=${username}`
-          : url || 'https://twitter.com';
-        break;
-      case 'linkedin':
-        socialUrl = url || 'https://www.linkedin.com';
-        break;
-      case 'youtube':
-        socialUrl = url || 'https://www.youtube.com';
-        break;
-      default:
-        // If type is not recognized, use the URL directly
-        socialUrl = url || '';
-        break;
-    }
-
-    if (!socialUrl) {
-      showToast('Invalid social media parameters');
-      return;
-    }
-
-    // Try to open the app first, fall back to web URL
-    Linking.canOpenURL(socialUrl)
-      .then(supported => {
-        if (supported) {
-          return Linking.openURL(socialUrl);
-        } else {
-          // App is not installed or URL scheme is not supported
-          // Fall back to web URL
-          const webUrl = url ||
-            (type.toLowerCase() === 'facebook' && username) ? `https://www.facebook.com/${username}` :
-            (type.toLowerCase() === 'instagram' && username) ? `https://www.instagram.com/${username}` :
-            (type.toLowerCase() === 'twitter' && username) ? `https://twitter.com/${username}` :
-            (type.toLowerCase() === 'x' && username) ? `https://x.com/${username}` :
-            `https://www.${type.toLowerCase()}.com`;
-
-          return Linking.openURL(webUrl);
-        }
-      })
-      .catch(error => {
-        console.error(`Error opening ${type}:`, error);
-        showToast(`Could not open ${type}`);
-      });
-  } catch (error) {
-    console.error('Error in openSocial:', error);
-    showToast('Failed to open social media');
-  }
-};
-
 // JavaScript to inject into the WebView for communication
 const INJECTED_JAVASCRIPT = `
 (function() {
@@ -184,43 +55,178 @@ const INJECTED_JAVASCRIPT = `
     window.ReactNativeWebView.postMessage(JSON.stringify(data));
   };
 
+  // Replies waiting for the native side, by message id
+  var pendingRequests = {};
+  var nextRequestId = 1;
+  var resolveReady;
+
+  // Send a request to the native side, resolving with its result
+  // Rejects with an Error carrying a code (UNKNOWN_ACTION, INVALID_PARAMS, UNAVAILABLE, FAILED, TIMEOUT)
+  function request(action, params) {
+    return new Promise(function(resolve, reject) {
+      var id = 'req-' + Date.now().toString(36) + '-' + (nextRequestId++);
+      pendingRequests[id] = {
+        resolve: resolve,
+        reject: reject,
+        timeout: setTimeout(function() {
+          delete pendingRequests[id];
+          reject(bridgeError({ code: 'TIMEOUT', message: 'No reply for ' + action }));
+        }, ${BRIDGE_REQUEST_TIMEOUT})
+      };
+
+      window.sendToReactNative({
+        type: 'bridgeRequest',
+        version: ${BRIDGE_VERSION},
+        id: id,
+        action: action,
+        params: params || {}
+      });
+    });
+  }
+
+  function bridgeError(error) {
+    var e = new Error(error.message);
+    e.code = error.code;
+    return e;
+  }
+
   // Create a global app interface for the website to use
+  // Every method returns a Promise; wait for MobileApp.ready before checking nativeVersion
   window.MobileApp = {
+    version: ${BRIDGE_VERSION},
+    nativeVersion: null,
+    actions: [],
+    ready: new Promise(function(resolve) { resolveReady = resolve; }),
+
+    // Call any native action by name
+    request: request,
+
     // Open WhatsApp with the given phone number and message
     openWhatsApp: function(phone, message = '') {
-      window.sendToReactNative({
-        type: 'appEvent',
-        data: {
-          action: 'openWhatsApp',
-          params: { phone, message }
-        }
-      });
+      return request('openWhatsApp', { phone, message });
     },
 
     // Open a social media app or website
     openSocial: function(type, username = '', url = '') {
-      window.sendToReactNative({
-        type: 'appEvent',
-        data: {
-          action: 'openSocial',
-          params: { type, username, url }
-        }
-      });
+      return request('openSocial', { type, username, url });
     },
 
     // Open Waze navigation to a location
     openWaze: function(lat, lng, name = '') {
-      window.sendToReactNative({
-        type: 'appEvent',
-        data: {
-          action: 'openWaze',
-          params: { lat, lng, name }
+      return request('openWaze', { lat, lng, name });
+    },
+
+    // Navigate to a location with an external app (waze, google, apple, uber, 99)
+    // When app is omitted the user's default is used, or a chooser is shown
+    navigateTo: function(lat, lng, label = '', app = '') {
+      return request('navigateTo', { lat, lng, label, app });
+    },
+
+    // Show a list of vehicles on the native fleet map
+    // Each vehicle accepts the notification fields: { placa, lat, lon, end, vel, dt, ign, id }
+    showFleet: function(vehicles) {
+      return request('showFleet', { vehicles });
+    },
+
+    // Show a vehicle route trail with playback on the native map
+    // positions: [{ lat, lon, dt, vel, ign }], oldest first
+    // info: optional event fields { placa, title, message, end, id }
+    showTrail: function(positions, info = {}) {
+      return request('showTrail', { positions, info });
+    },
+
+    // Open the dialer with a phone number, e.g. to call a driver
+    callPhone: function(phone) {
+      return request('callPhone', { phone });
+    },
+
+    // Open the SMS app with a message, or with a tracker command configured for the brand
+    // sendSms(phone, { command: 'block', values: { senha: '1234' } }) or sendSms(phone, { message })
+    // Resolves false when the user cancels a destructive command
+    sendSms: function(phone, options = {}) {
+      return request('sendSms', Object.assign({ phone }, options));
+    },
+
+    // Open the email composer; to and cc accept an address or a list of addresses
+    composeEmail: function(to, subject = '', body = '', cc = []) {
+      return request('composeEmail', { to, subject, body, cc });
+    },
+
+    // Share a location through the native share sheet, as a text with a maps link
+    // location: { lat, lon, placa, end, vel, dt, title, message }; resolves { shared }
+    shareLocation: function(location) {
+      return request('shareLocation', location || {});
+    },
+
+    // Current FCM token, { token } with null when notifications are not allowed
+    getPushToken: function() {
+      return request('getPushToken');
+    },
+
+    // Notification permission, { status: 'granted' | 'provisional' | 'denied' | 'not-determined' }
+    getNotificationPermission: function() {
+      return request('getNotificationPermission');
+    },
+
+    // Latest notifications received by the device, newest first (max 100)
+    getRecentNotifications: function(limit = 20) {
+      return request('getRecentNotifications', { limit });
+    },
+
+    // Replace the notification filters of the device
+    // filters: { mutedPlates: ['ABC1D23'], mutedCategories: ['speeding'], quietHours: { start: '22:00', end: '07:00' } }
+    setNotificationFilters: function(filters = {}) {
+      return request('setNotificationFilters', filters);
+    },
+
+    // Notification filters applied by the device, { token, portal, device }
+    getNotificationFilters: function() {
+      return request('getNotificationFilters');
+    },
+
+    // Call back with each push received while the app is open
+    // Same as listening to the mobileAppPush DOM event; returns an unsubscribe function
+    onPush: function(callback) {
+      var listener = function(e) { callback(e.detail); };
+      document.addEventListener('mobileAppPush', listener);
+      return function() {
+        document.removeEventListener('mobileAppPush', listener);
+      };
+    },
+
+    // Messages from the native side (replies and handshake)
+    _receive: function(message) {
+      if (message.type === 'handshake') {
+        window.MobileApp.nativeVersion = message.version;
+        window.MobileApp.platform = message.platform;
+        window.MobileApp.actions = message.actions;
+        resolveReady(message);
+        document.dispatchEvent(new CustomEvent('mobileAppReady', { detail: message }));
+        return;
+      }
+
+      if (message.type === 'event') {
+        var eventName = 'mobileApp' + message.name.charAt(0).toUpperCase() + message.name.slice(1);
+        document.dispatchEvent(new CustomEvent(eventName, { detail: message.detail }));
+        return;
+      }
+
+      if (message.type === 'bridgeResponse') {
+        var pending = pendingRequests[message.id];
+        if (!pending) return;
+
+        delete pendingRequests[message.id];
+        clearTimeout(pending.timeout);
+        if (message.ok) {
+          pending.resolve(message.result);
+        } else {
+          pending.reject(bridgeError(message.error));
         }
-      });
+      }
     }
   };
 
-  // Listen for app-specific events
+  // Listen for app-specific events (version 1 protocol, no reply)
   document.addEventListener('appEvent', function(e) {
     window.sendToReactNative({
       type: 'appEvent',
@@ -251,6 +257,7 @@ const INJECTED_JAVASCRIPT = `
   // Notify React Native that JS is initialized
   window.sendToReactNative({
     type: 'initialized',
+    bridgeVersion: ${BRIDGE_VERSION},
     userAgent: navigator.userAgent
   });
 
@@ -265,13 +272,14 @@ const INJECTED_JAVASCRIPT = `
   };
 
   // Add a message to the console to help developers
-  console.log('MobileApp interface is ready. You can use MobileApp.openWhatsApp() and MobileApp.openSocial() to interact with native features.');
+  console.log('MobileApp interface is ready. Await MobileApp.ready, then call MobileApp.request(action, params) or the helper methods.');
 
   true; // Note: this is needed for the injected script to work
 })();
 `;
 
-export default function WebViewScreen({ baseUrl = config.webview.baseUrl }: WebViewScreenProps) {
+export default function WebViewScreen({ baseUrl = config.webview.baseUrl, path }: WebViewScreenProps) {
+  const router = useRouter();
   // Define allowed domains for navigation from config
   const allowedDomains = config.webview.allowedDomains;
   // State for loading and URL
@@ -331,11 +339,8 @@ export default function WebViewScreen({ baseUrl = config.webview.baseUrl }: WebV
 
   // Function to construct URL with token
   const constructUrl = useCallback((token: string | null): string => {
-    if (token) {
-      return `${baseUrl}?device=${token}`;
-    }
-    return baseUrl;
-  }, [baseUrl]);
+    return buildPortalUrl(baseUrl, token, path);
+  }, [baseUrl, path]);
 
   // Function to initialize the WebView
   const initWebView = useCallback(async () => {
@@ -447,14 +452,7 @@ export default function WebViewScreen({ baseUrl = config.webview.baseUrl }: WebV
       console.log('WebViewScreen: Allowed domains:', allowedDomains);
 
       // Check if the hostname is in the allowed domains list
-      const isAllowedUrl = allowedDomains.some(domain => {
-        // If domain is a full hostname (contains dots), match exactly
-        if (domain.includes('.')) {
-          return hostname === domain || hostname.endsWith('.' + domain);
-        }
-        // Otherwise, check if hostname contains the domain
-        return hostname.includes(domain);
-      });
+      const isAllowedUrl = isAllowedPortalHostname(hostname);
 
       if (!isAllowedUrl) {
         console.log('WebViewScreen: BLOCKED navigation to external URL:', navState.url);
@@ -463,7 +461,7 @@ export default function WebViewScreen({ baseUrl = config.webview.baseUrl }: WebV
         webViewRef.current?.stopLoading();
 
         // Show a message to the user
-        showToast('Navigation to external URLs is not allowed');
+        showToast('Navigation to external URLs is not allowed', { severity: 'warning' });
 
         // Go back to previous page in WebView or reload the base URL
         if (webViewCanGoBack && webViewRef.current) {
@@ -488,6 +486,21 @@ export default function WebViewScreen({ baseUrl = config.webview.baseUrl }: WebV
 
   // We don't allow opening external URLs in this app
 
+  // tel:, sms: and mailto: links go through the matching bridge action, so the brand
+  // allowlist and the confirmation of destructive commands apply to them as well
+  const handleShouldStartLoadWithRequest = (request: ShouldStartLoadRequest) => {
+    const contactRequest = parseContactLink(request.url);
+    if (!contactRequest) return true;
+
+    console.log('WebViewScreen: Intercepted contact link:', request.url);
+    handleBridgeRequest(contactRequest, { router }).then(response => {
+      if (!response.ok && response.error) {
+        showToast(response.error.message, { severity: 'error' });
+      }
+    });
+    return false;
+  };
+
   // Handle WebView refresh
   const refreshWebView = useCallback(async () => {
     setRefreshing(true);
@@ -518,49 +531,61 @@ export default function WebViewScreen({ baseUrl = config.webview.baseUrl }: WebV
     }
   }, [fcmToken, getTokenWithRetry, constructUrl]);
 
+  // Deliver a bridge message to the injected script
+  const sendToWebView = (message: BridgeResponse | BridgeHandshake | BridgeEvent) => {
+    webViewRef.current?.injectJavaScript(buildBridgeMessageScript(message));
+  };
+
+  // Forward foreground pushes to the page as mobileAppPush events
+  useEffect(() => {
+    const unsubscribe = onMessage((message) => {
+      const { entry } = createInboxEntry(message);
+      sendToWebView({ type: 'event', name: 'push', detail: entry });
+    });
+
+    return unsubscribe;
+  }, []);
+
   // Handle messages from WebView JavaScript
   const handleWebViewMessage = (event: any) => {
     try {
+      // Only the portal may use the bridge, not other pages or frames loaded in the WebView
+      const hostname = new URL(event.nativeEvent.url).hostname;
+      if (!isAllowedPortalHostname(hostname)) {
+        console.warn('WebViewScreen: Ignored message from outside the portal:', event.nativeEvent.url);
+        return;
+      }
+
       const data = JSON.parse(event.nativeEvent.data);
       console.log('WebViewScreen: Received message from WebView:', data);
 
       switch (data.type) {
         case 'initialized':
-          console.log('WebViewScreen: WebView JS initialized');
+          console.log('WebViewScreen: WebView JS initialized, bridge version:', data.bridgeVersion);
+          sendToWebView(getBridgeHandshake());
           break;
 
         case 'windowOpen':
           // Block window.open calls from WebView
           console.log('WebViewScreen: Blocked window.open call to:', data.url);
-          showToast('Navigation to external URLs is not allowed');
+          showToast('Navigation to external URLs is not allowed', { severity: 'warning' });
+          break;
+
+        case 'bridgeRequest':
+          // Versioned request, always replied to
+          console.log('WebViewScreen: Bridge request:', data.action, data.id);
+          handleBridgeRequest(data, { router }).then(sendToWebView);
           break;
 
         case 'appEvent':
-          // Handle custom app events
+          // Version 1 events have no reply, failures are shown to the user
           console.log('WebViewScreen: Received app event:', data.data);
-
-          // Handle specific app events
-          console.log('WebViewScreen: ACTION:', data.data.action);
           if (data.data && data.data.action) {
-            switch (data.data.action) {
-              case 'openWhatsApp':
-                console.log('WebViewScreen: Opening WhatsApp with params:', data.data.params);
-                openWhatsApp(data.data.params);
-                break;
-
-              case 'openSocial':
-                console.log('WebViewScreen: Opening social media with params:', data.data.params);
-                openSocial(data.data.params);
-                break;
-
-              case 'openWaze':
-                console.log('WebViewScreen: Opening Waze with params:', data.data.params);
-                openWaze(data.data.params);
-                break;
-
-              default:
-                console.log('WebViewScreen: Unknown app action:', data.data.action);
-            }
+            handleBridgeRequest(data.data, { router }).then(response => {
+              if (!response.ok && response.error) {
+                showToast(response.error.message, { severity: 'error' });
+              }
+            });
           }
           break;
 
@@ -645,6 +670,9 @@ export default function WebViewScreen({ baseUrl = config.webview.baseUrl }: WebV
             source={{ uri: url }}
             style={styles.webview}
             onNavigationStateChange={handleNavigationStateChange}
+            // Contact schemes reach handleShouldStartLoadWithRequest instead of being opened directly
+            originWhitelist={['http://*', 'https://*', 'tel:*', 'sms:*', 'smsto:*', 'mailto:*']}
+            onShouldStartLoadWithRequest={handleShouldStartLoadWithRequest}
             startInLoadingState={true}
             renderLoading={() => (
               <View style={styles.loadingOverlay}>
@@ -1,6 +1,7 @@
 // Initialize Firebase and set up background message handler
 import { initializeApp, getApp } from '@react-native-firebase/app';
-import { getMessaging, setBackgroundMessageHandler } from '@react-native-firebase/messaging';
+import { setBackgroundMessageHandler } from './utils/messaging';
+import { handleBackgroundMessage } from './utils/notificationActions';
 
 // Make sure Firebase is initialized properly
 let app;
@@ -16,22 +17,18 @@ try {
 // Set up background message handler
 try {
   console.log('Setting up Firebase background message handler');
-  const messaging = getMessaging(app);
-  
-  setBackgroundMessageHandler(messaging, async (message) => {
-    console.log('Background message received:', message);
 
-    // For Android, Firebase should automatically display the notification when the app is in the background
-    // This handler is just for processing any data or performing background tasks when a notification arrives
+  setBackgroundMessageHandler(async (message) => {
+    console.log('Background message received:', message);
 
-    // Process any data payload if needed
-    if (message.data) {
-      console.log('Processing data payload:', message.data);
-      // Process the data as needed
+    // For Android, Firebase automatically displays pushes with a notification payload when the app is in the background.
+    // Data-only alerts with a category are displayed here with their action buttons, so they work even when the app is killed.
+    // The alert preferences and the filters set by the portal are applied before displaying them
+    try {
+      await handleBackgroundMessage(message);
+    } catch (error) {
+      console.error('Error handling background message:', error);
     }
-
-    // Return true to indicate the message has been handled
-    return Promise.resolve();
   });
   console.log('Firebase background message handler successfully set up');
 } catch (error) {
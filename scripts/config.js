@@ -644,6 +644,18 @@ export default config;`;
     logger.info('utils/config.ts already exists');
   }
 
+  // Write the bridge allowlist, brands without it only get the original actions
+  logger.step('Checking bridge actions in rebrand-config.json');
+
+  if (fileUtils.exists(paths.rebrandConfig) && !Array.isArray(rebrandConfig.bridgeActions)) {
+    rebrandConfig.bridgeActions = ['openWhatsApp', 'openSocial', 'openWaze'];
+    fileUtils.writeJson(paths.rebrandConfig, rebrandConfig);
+    logger.warning('bridgeActions not set, added the original actions: ' + rebrandConfig.bridgeActions.join(', '));
+    logger.info('List the newer actions the portal may call in bridgeActions, see docs/BRIDGE.md');
+  } else {
+    logger.info('bridgeActions already set');
+  }
+
   logger.success('WebView configuration completed');
   return true;
 }
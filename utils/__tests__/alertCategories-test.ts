@@ -0,0 +1,39 @@
+import { parseAlertCategory } from '../alertCategories';
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('parseAlertCategory', () => {
+  it('reads the category field', () => {
+    expect(parseAlertCategory({ category: 'speeding' })).toBe('speeding');
+    expect(parseAlertCategory({ category: ' Geofence-Exit ' })).toBe('geofence_exit');
+  });
+
+  it('accepts the Portuguese names in category or tipo', () => {
+    expect(parseAlertCategory({ tipo: 'Pânico' })).toBe('panic');
+    expect(parseAlertCategory({ category: 'saida cerca' })).toBe('geofence_exit');
+  });
+
+  it('falls back to the tracker event code', () => {
+    expect(parseAlertCategory({ evt: 'sos' })).toBe('panic');
+    expect(parseAlertCategory({ evt: 'jammer' })).toBe('panic');
+  });
+
+  it('returns null for plain notifications and unknown names', () => {
+    expect(parseAlertCategory({ title: 'Aviso' })).toBeNull();
+    expect(parseAlertCategory({ category: 'promo' })).toBeNull();
+    expect(parseAlertCategory({ category: 'Saída de cerca' })).toBeNull();
+    expect(parseAlertCategory(null)).toBeNull();
+  });
+
+  it('ignores inherited object keys', () => {
+    expect(parseAlertCategory({ category: 'constructor' })).toBeNull();
+    expect(parseAlertCategory({ category: 'toString' })).toBeNull();
+    expect(parseAlertCategory({ category: '__proto__' })).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  addToAlertGroups,
+  ALERT_GROUP_WINDOW,
+  AlertGroup,
+  countAlertBurst,
+  getAlertGroupSummary,
+  QueuedAlert,
+  removeFromAlertGroups,
+} from '../alertGroups';
+import { InboxEntry } from '../inbox';
+
+const alert = (id: string, placa: string | undefined, receivedAt: number): QueuedAlert => ({
+  id,
+  title: `Alerta ${id}`,
+  body: '',
+  placa,
+  receivedAt,
+});
+
+const entry = (id: string, placa: string, receivedAt: number, read: boolean = false): InboxEntry => ({
+  id,
+  title: `Alerta ${id}`,
+  body: '',
+  params: {},
+  placa,
+  receivedAt,
+  read,
+});
+
+const group = (...alerts: QueuedAlert[]): AlertGroup[] =>
+  alerts.reduce<AlertGroup[]>((groups, item) => addToAlertGroups(groups, item), []);
+
+describe('addToAlertGroups', () => {
+  it('stacks alerts of the same vehicle, newest first', () => {
+    const groups = group(alert('1', 'ABC1D23', 0), alert('2', 'abc-1d23', 1000));
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].alerts.map(item => item.id)).toEqual(['2', '1']);
+    expect(groups[0].updatedAt).toBe(1000);
+  });
+
+  it('moves the updated group to the top', () => {
+    const groups = group(alert('1', 'ABC1D23', 0), alert('2', 'XYZ9A87', 1000), alert('3', 'ABC1D23', 2000));
+    expect(groups.map(item => item.placa)).toEqual(['ABC1D23', 'XYZ9A87']);
+  });
+
+  it('starts a new group after the window', () => {
+    const groups = group(alert('1', 'ABC1D23', 0), alert('2', 'ABC1D23', ALERT_GROUP_WINDOW + 1));
+    expect(groups).toHaveLength(2);
+  });
+
+  it('never groups alerts without plate', () => {
+    expect(group(alert('1', undefined, 0), alert('2', undefined, 1000))).toHaveLength(2);
+  });
+});
+
+describe('removeFromAlertGroups', () => {
+  it('removes the alerts and the groups left empty', () => {
+    const groups = group(alert('1', 'ABC1D23', 0), alert('2', 'XYZ9A87', 1000), alert('3', 'ABC1D23', 2000));
+    const remaining = removeFromAlertGroups(groups, new Set(['1', '2']));
+
+    expect(remaining).toHaveLength(1);
+    expect(remaining[0].alerts.map(item => item.id)).toEqual(['3']);
+  });
+
+  it('keeps alerts received after the ones removed', () => {
+    const shown = group(alert('1', 'ABC1D23', 0));
+    const updated = addToAlertGroups(shown, alert('2', 'ABC1D23', 1000));
+
+    expect(removeFromAlertGroups(updated, new Set(['1']))[0].alerts.map(item => item.id)).toEqual(['2']);
+  });
+});
+
+describe('getAlertGroupSummary', () => {
+  it('shows the title of a single alert', () => {
+    expect(getAlertGroupSummary(group(alert('1', 'ABC1D23', 0))[0])).toBe('Alerta 1');
+  });
+
+  it('counts the alerts of a burst', () => {
+    const [burst] = group(alert('1', 'ABC1D23', 0), alert('2', 'ABC1D23', 1000));
+    expect(getAlertGroupSummary(burst)).toBe('ABC1D23: 2 novos alertas');
+  });
+});
+
+describe('countAlertBurst', () => {
+  it('counts unread entries of the vehicle within the window', () => {
+    const entries = [
+      entry('4', 'ABC1D23', 3000),
+      entry('3', 'XYZ9A87', 2500),
+      entry('2', 'abc1d23', 2000),
+      entry('1', 'ABC1D23', 1000),
+    ];
+    expect(countAlertBurst(entries, 'ABC-1D23')).toBe(3);
+  });
+
+  it('stops at a read entry', () => {
+    const entries = [entry('2', 'ABC1D23', 2000), entry('1', 'ABC1D23', 1000, true)];
+    expect(countAlertBurst(entries, 'ABC1D23')).toBe(1);
+  });
+
+  it('stops at a gap longer than the window', () => {
+    const entries = [entry('2', 'ABC1D23', ALERT_GROUP_WINDOW + 2000), entry('1', 'ABC1D23', 1000)];
+    expect(countAlertBurst(entries, 'ABC1D23')).toBe(1);
+  });
+});
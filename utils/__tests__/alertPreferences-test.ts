@@ -0,0 +1,125 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  AlertPreferences,
+  DEFAULT_ALERT_PREFERENCES,
+  getAlertFilterReason,
+  isQuietTime,
+  normalizePlate,
+  parseTimeOfDay,
+} from '../alertPreferences';
+import { parseVehicleEvent } from '../vehicleEvent';
+
+const at = (hours: number, minutes: number = 0) => new Date(2025, 2, 12, hours, minutes);
+
+const preferences = (changes: Partial<AlertPreferences>): AlertPreferences => ({
+  ...DEFAULT_ALERT_PREFERENCES,
+  ...changes,
+});
+
+const NIGHT = { enabled: true, start: '22:00', end: '07:00' };
+
+describe('normalizePlate', () => {
+  it('removes separators and upper cases', () => {
+    expect(normalizePlate(' abc-1d23 ')).toBe('ABC1D23');
+  });
+});
+
+describe('parseTimeOfDay', () => {
+  it('returns minutes since midnight', () => {
+    expect(parseTimeOfDay('07:30')).toBe(450);
+    expect(parseTimeOfDay(' 0:00 ')).toBe(0);
+  });
+
+  it('rejects invalid times', () => {
+    expect(parseTimeOfDay('24:00')).toBeNull();
+    expect(parseTimeOfDay('12:60')).toBeNull();
+    expect(parseTimeOfDay('7h')).toBeNull();
+  });
+});
+
+describe('isQuietTime', () => {
+  it('handles periods past midnight', () => {
+    expect(isQuietTime(NIGHT, at(23))).toBe(true);
+    expect(isQuietTime(NIGHT, at(6, 59))).toBe(true);
+    expect(isQuietTime(NIGHT, at(7))).toBe(false);
+    expect(isQuietTime(NIGHT, at(12))).toBe(false);
+  });
+
+  it('handles periods within the day', () => {
+    const lunch = { enabled: true, start: '12:00', end: '13:00' };
+    expect(isQuietTime(lunch, at(12, 30))).toBe(true);
+    expect(isQuietTime(lunch, at(13))).toBe(false);
+  });
+
+  it('is off when disabled, invalid or empty', () => {
+    expect(isQuietTime({ ...NIGHT, enabled: false }, at(23))).toBe(false);
+    expect(isQuietTime({ ...NIGHT, start: 'x' }, at(23))).toBe(false);
+    expect(isQuietTime({ enabled: true, start: '10:00', end: '10:00' }, at(10))).toBe(false);
+  });
+});
+
+describe('getAlertFilterReason', () => {
+  const { event } = parseVehicleEvent({ placa: 'ABC1D23', vel: '85' });
+
+  it('shows alerts without matching rules', () => {
+    expect(getAlertFilterReason({ category: 'speeding' }, event, DEFAULT_ALERT_PREFERENCES, at(12))).toBeNull();
+  });
+
+  it('hides muted categories and plates', () => {
+    expect(
+      getAlertFilterReason({ category: 'speeding' }, event, preferences({ mutedCategories: ['speeding'] }), at(12))
+    ).toBe('mutedCategory');
+    expect(
+      getAlertFilterReason({ category: 'speeding' }, event, preferences({ mutedPlates: ['ABC1D23'] }), at(12))
+    ).toBe('mutedPlate');
+  });
+
+  it('hides speeding alerts below the minimum speed', () => {
+    expect(getAlertFilterReason({ category: 'speeding' }, event, preferences({ minSpeed: 90 }), at(12))).toBe(
+      'belowMinSpeed'
+    );
+    expect(getAlertFilterReason({ category: 'speeding' }, event, preferences({ minSpeed: 80 }), at(12))).toBeNull();
+  });
+
+  it('hides alerts during quiet hours except panic', () => {
+    const quiet = preferences({ quietHours: NIGHT });
+    expect(getAlertFilterReason({ category: 'speeding' }, event, quiet, at(23))).toBe('quietHours');
+    expect(getAlertFilterReason({ category: 'panic' }, event, quiet, at(23))).toBeNull();
+  });
+});
+
+describe('checkAlertFilters', () => {
+  let checkAlertFilters: typeof import('../alertPreferences').checkAlertFilters;
+  let savePortalAlertFilters: typeof import('../alertPreferences').savePortalAlertFilters;
+  let updateAlertPreferences: typeof import('../alertPreferences').updateAlertPreferences;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    // Fresh module, the preferences and portal filters are cached in memory
+    jest.isolateModules(() => {
+      ({ checkAlertFilters, savePortalAlertFilters, updateAlertPreferences } = require('../alertPreferences'));
+    });
+  });
+
+  const { event } = parseVehicleEvent({ placa: 'ABC1D23' });
+
+  it('shows alerts with no preferences stored', async () => {
+    await expect(checkAlertFilters({ category: 'speeding' }, event)).resolves.toBeNull();
+  });
+
+  it('applies the device preferences', async () => {
+    await updateAlertPreferences({ mutedPlates: ['ABC1D23'] });
+    await expect(checkAlertFilters({ category: 'speeding' }, event)).resolves.toBe('mutedPlate');
+  });
+
+  it('applies the portal filters on top of the preferences', async () => {
+    await savePortalAlertFilters({
+      mutedPlates: [],
+      mutedCategories: ['ignition_on'],
+      quietHours: { enabled: false, start: '22:00', end: '07:00' },
+    });
+
+    await expect(checkAlertFilters({ category: 'ignition_on' }, event)).resolves.toBe('mutedCategory');
+    await expect(checkAlertFilters({ category: 'speeding' }, event)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+type BridgeModule = typeof import('../bridge');
+
+/**
+ * Load the bridge with a brand config, fresh so the handler registry is empty
+ */
+function loadBridge(rebrandConfig: object): BridgeModule {
+  let bridge!: BridgeModule;
+  jest.isolateModules(() => {
+    jest.doMock('../../rebrand-config.json', () => rebrandConfig);
+    bridge = require('../bridge');
+  });
+  return bridge;
+}
+
+describe('isBridgeActionAllowed', () => {
+  it('allows only the listed actions', () => {
+    const { isBridgeActionAllowed } = loadBridge({ bridgeActions: ['openWaze', 'sendSms'] });
+
+    expect(isBridgeActionAllowed('sendSms')).toBe(true);
+    expect(isBridgeActionAllowed('openWhatsApp')).toBe(false);
+  });
+
+  it('allows only the original actions when the brand has no list', () => {
+    const { isBridgeActionAllowed } = loadBridge({});
+
+    expect(isBridgeActionAllowed('openWhatsApp')).toBe(true);
+    expect(isBridgeActionAllowed('openSocial')).toBe(true);
+    expect(isBridgeActionAllowed('openWaze')).toBe(true);
+    expect(isBridgeActionAllowed('sendSms')).toBe(false);
+    expect(isBridgeActionAllowed('getPushToken')).toBe(false);
+  });
+
+  it('denies every action with an empty list', () => {
+    const { isBridgeActionAllowed } = loadBridge({ bridgeActions: [] });
+
+    expect(isBridgeActionAllowed('openWhatsApp')).toBe(false);
+  });
+});
+
+describe('handleBridgeRequest', () => {
+  const context = {} as any;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('refuses actions outside the list', async () => {
+    const { handleBridgeRequest, registerBridgeHandler } = loadBridge({});
+    const handler = jest.fn();
+    registerBridgeHandler('sendSms', handler);
+
+    const response = await handleBridgeRequest({ type: 'bridgeRequest', id: '1', action: 'sendSms' } as any, context);
+
+    expect(response).toEqual(expect.objectContaining({ id: '1', ok: false, error: expect.objectContaining({ code: 'NOT_ALLOWED' }) }));
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('lists only the allowed actions in the handshake', () => {
+    const { getBridgeHandshake, registerBridgeHandler } = loadBridge({});
+    registerBridgeHandler('openWaze', jest.fn());
+    registerBridgeHandler('sendSms', jest.fn());
+
+    expect(getBridgeHandshake().actions).toEqual(['openWaze']);
+  });
+});
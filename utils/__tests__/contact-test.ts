@@ -0,0 +1,123 @@
+import { Platform } from 'react-native';
+import {
+  buildEmailLink,
+  buildSmsLink,
+  fillSmsTemplate,
+  getSmsCommand,
+  isEmailAddress,
+  normalizePhone,
+  parseContactLink,
+} from '../contact';
+
+describe('normalizePhone', () => {
+  it('keeps the digits and a leading +', () => {
+    expect(normalizePhone('(11) 98765-4321')).toBe('11987654321');
+    expect(normalizePhone(' +55 11 98765-4321 ')).toBe('+5511987654321');
+  });
+
+  it('rejects numbers with too few digits', () => {
+    expect(normalizePhone('12')).toBeNull();
+    expect(normalizePhone('abc')).toBeNull();
+  });
+});
+
+describe('isEmailAddress', () => {
+  it('accepts plain addresses', () => {
+    expect(isEmailAddress('suporte@wefleet.com.br')).toBe(true);
+  });
+
+  it('rejects lists and incomplete addresses', () => {
+    expect(isEmailAddress('a@b.com,c@d.com')).toBe(false);
+    expect(isEmailAddress('suporte@wefleet')).toBe(false);
+    expect(isEmailAddress('suporte')).toBe(false);
+  });
+});
+
+describe('buildSmsLink', () => {
+  const os = Platform.OS;
+
+  afterEach(() => {
+    Platform.OS = os;
+  });
+
+  it('omits the body without a message', () => {
+    expect(buildSmsLink('11987654321')).toBe('sms:11987654321');
+  });
+
+  it('puts the body after & on iOS', () => {
+    Platform.OS = 'ios';
+    expect(buildSmsLink('11987654321', 'WHERE#')).toBe('sms:11987654321&body=WHERE%23');
+  });
+
+  it('puts the body after ? on Android', () => {
+    Platform.OS = 'android';
+    expect(buildSmsLink('11987654321', 'STOP 123')).toBe('sms:11987654321?body=STOP%20123');
+  });
+});
+
+describe('buildEmailLink', () => {
+  it('builds the recipients and the encoded query', () => {
+    expect(buildEmailLink({ to: ['a@b.com', 'c@d.com'], cc: ['e@f.com'], subject: 'Alerta', body: 'Olá & até' }))
+      .toBe('mailto:a%40b.com,c%40d.com?cc=e%40f.com&subject=Alerta&body=Ol%C3%A1%20%26%20at%C3%A9');
+  });
+
+  it('omits the query when empty', () => {
+    expect(buildEmailLink({ to: ['a@b.com'] })).toBe('mailto:a%40b.com');
+  });
+});
+
+describe('getSmsCommand', () => {
+  it('returns the commands of the brand', () => {
+    expect(getSmsCommand('block')).toEqual(expect.objectContaining({ template: 'STOP{senha}#', destructive: true }));
+    expect(getSmsCommand('position')).toEqual(expect.objectContaining({ template: 'WHERE#' }));
+  });
+
+  it('returns null for unknown and inherited names', () => {
+    expect(getSmsCommand('reboot')).toBeNull();
+    expect(getSmsCommand('constructor')).toBeNull();
+    expect(getSmsCommand('toString')).toBeNull();
+  });
+});
+
+describe('fillSmsTemplate', () => {
+  it('fills the placeholders', () => {
+    expect(fillSmsTemplate('STOP{senha}#', { senha: 1234 })).toEqual({ text: 'STOP1234#', missing: [] });
+  });
+
+  it('keeps and reports the placeholders without value', () => {
+    expect(fillSmsTemplate('STOP{senha}#{id}', { id: '' })).toEqual({ text: 'STOP{senha}#{id}', missing: ['senha', 'id'] });
+  });
+});
+
+describe('parseContactLink', () => {
+  it('parses tel links', () => {
+    expect(parseContactLink('tel:+5511987654321')).toEqual({ action: 'callPhone', params: { phone: '+5511987654321' } });
+  });
+
+  it('parses sms links with the body after ?', () => {
+    expect(parseContactLink('sms:11987654321?body=STOP+1234%23')).toEqual({
+      action: 'sendSms',
+      params: { phone: '11987654321', message: 'STOP 1234#' },
+    });
+  });
+
+  it('parses iOS style sms links with the body after &', () => {
+    expect(parseContactLink('sms:11987654321&body=WHERE%23')).toEqual({
+      action: 'sendSms',
+      params: { phone: '11987654321', message: 'WHERE#' },
+    });
+    expect(parseContactLink('SMSTO:11987654321')).toEqual({ action: 'sendSms', params: { phone: '11987654321', message: undefined } });
+  });
+
+  it('parses mailto links with cc, subject and body', () => {
+    expect(parseContactLink('mailto:a@b.com,%20c@d.com?CC=e@f.com&subject=Alerta%20de%20p%C3%A2nico&body=Ver+mapa')).toEqual({
+      action: 'composeEmail',
+      params: { to: ['a@b.com', 'c@d.com'], cc: ['e@f.com'], subject: 'Alerta de pânico', body: 'Ver mapa' },
+    });
+  });
+
+  it('ignores other links', () => {
+    expect(parseContactLink('https://wefleet.com.br')).toBeNull();
+    expect(parseContactLink('whatsapp://send?phone=11987654321')).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { getCoordinateBounds, getFleet, onFleetChange, parseFleet, setFleet } from '../fleet';
+
+describe('setFleet', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps only the vehicles with coordinates', () => {
+    const fleet = setFleet(parseFleet([{ placa: 'ABC1D23', lat: '-23.5', lon: '-46.6' }, { placa: 'XYZ9K87' }]));
+
+    expect(fleet.map(vehicle => vehicle.placa)).toEqual(['ABC1D23']);
+    expect(getFleet()).toBe(fleet);
+  });
+
+  it('notifies the listeners of a new fleet until they unsubscribe', () => {
+    const listener = jest.fn();
+    const unsubscribe = onFleetChange(listener);
+
+    const fleet = setFleet(parseFleet([{ placa: 'ABC1D23', lat: '-23.5', lon: '-46.6' }]));
+    expect(listener).toHaveBeenCalledWith(fleet);
+
+    unsubscribe();
+    setFleet([]);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('parseFleet', () => {
+  it('rejects anything but a list', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(parseFleet({ placa: 'ABC1D23' })).toEqual([]);
+  });
+});
+
+describe('getCoordinateBounds', () => {
+  it('returns the north-east and south-west corners', () => {
+    expect(
+      getCoordinateBounds([
+        { latitude: -23.5, longitude: -46.6 },
+        { latitude: -22.9, longitude: -43.2 },
+      ])
+    ).toEqual({ ne: [-43.2, -22.9], sw: [-46.6, -23.5] });
+  });
+
+  it('returns null for an empty list', () => {
+    expect(getCoordinateBounds([])).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+import { formatDistance, getBearing, getCompassPoint, getDestination, getDistance } from '../geo';
+
+const SAO_PAULO = { latitude: -23.5505, longitude: -46.6333 };
+const RIO = { latitude: -22.9068, longitude: -43.1729 };
+
+describe('getDistance', () => {
+  it('is zero for the same position', () => {
+    expect(getDistance(SAO_PAULO, SAO_PAULO)).toBe(0);
+  });
+
+  it('measures the great-circle distance', () => {
+    // About 361 km between São Paulo and Rio de Janeiro
+    expect(getDistance(SAO_PAULO, RIO) / 1000).toBeCloseTo(361, 0);
+  });
+
+  it('is symmetric', () => {
+    expect(getDistance(RIO, SAO_PAULO)).toBeCloseTo(getDistance(SAO_PAULO, RIO), 6);
+  });
+});
+
+describe('getBearing', () => {
+  it('points north and east along the axes', () => {
+    expect(getBearing({ latitude: 0, longitude: 0 }, { latitude: 1, longitude: 0 })).toBeCloseTo(0, 6);
+    expect(getBearing({ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 1 })).toBeCloseTo(90, 6);
+  });
+
+  it('stays between 0 and 360', () => {
+    expect(getBearing({ latitude: 0, longitude: 0 }, { latitude: 0, longitude: -1 })).toBeCloseTo(270, 6);
+  });
+});
+
+describe('getDestination', () => {
+  it('is the inverse of getDistance and getBearing', () => {
+    const destination = getDestination(SAO_PAULO, 5000, 135);
+
+    expect(getDistance(SAO_PAULO, destination)).toBeCloseTo(5000, 3);
+    expect(getBearing(SAO_PAULO, destination)).toBeCloseTo(135, 3);
+  });
+
+  it('wraps the longitude across the antimeridian', () => {
+    const destination = getDestination({ latitude: 0, longitude: 179.99 }, 5000, 90);
+    expect(destination.longitude).toBeLessThan(-179);
+  });
+});
+
+describe('getCompassPoint', () => {
+  it('uses the Portuguese compass points', () => {
+    expect(getCompassPoint(0)).toBe('N');
+    expect(getCompassPoint(90)).toBe('L');
+    expect(getCompassPoint(225)).toBe('SO');
+    expect(getCompassPoint(350)).toBe('N');
+  });
+});
+
+describe('formatDistance', () => {
+  it('shows meters below 1 km', () => {
+    expect(formatDistance(999.4)).toBe('999 m');
+  });
+
+  it('shows one decimal below 10 km, with a comma', () => {
+    expect(formatDistance(1234)).toBe('1,2 km');
+  });
+
+  it('shows whole kilometers from 10 km', () => {
+    expect(formatDistance(12345)).toBe('12 km');
+  });
+});
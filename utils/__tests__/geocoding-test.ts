@@ -0,0 +1,96 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
+import { formatGeocodedAddress } from '../geocoding';
+
+describe('formatGeocodedAddress', () => {
+  it('formats a Brazilian address with the state abbreviation', () => {
+    expect(
+      formatGeocodedAddress({
+        display_name: 'Rua Augusta, 1500, Consolação, São Paulo, Brasil',
+        address: {
+          road: 'Rua Augusta',
+          house_number: '1500',
+          suburb: 'Consolação',
+          city: 'São Paulo',
+          state: 'São Paulo',
+          'ISO3166-2-lvl4': 'BR-SP',
+        },
+      })
+    ).toBe('Rua Augusta, 1500 - Consolação, São Paulo - SP');
+  });
+
+  it('uses the alternative locality fields', () => {
+    expect(
+      formatGeocodedAddress({
+        address: { highway: 'Rodovia Anhanguera', village: 'Vinhedo', state: 'São Paulo' },
+      })
+    ).toBe('Rodovia Anhanguera - Vinhedo - São Paulo');
+  });
+
+  it('falls back to the display name', () => {
+    expect(formatGeocodedAddress({ display_name: 'Oceano Atlântico', address: {} })).toBe('Oceano Atlântico');
+  });
+
+  it('returns null for empty results', () => {
+    expect(formatGeocodedAddress({})).toBeNull();
+  });
+});
+
+describe('reverseGeocode', () => {
+  const position = { latitude: -23.55052, longitude: -46.63331 };
+  let reverseGeocode: typeof import('../geocoding').reverseGeocode;
+  let fetchMock: jest.Mock;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    // Fresh module, the cache and the request queue are kept in memory
+    jest.isolateModules(() => {
+      ({ reverseGeocode } = require('../geocoding'));
+    });
+
+    fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ address: { road: 'Praça da Sé', city: 'São Paulo' } }),
+    });
+    global.fetch = fetchMock;
+  });
+
+  it('looks up the address once per rounded position', async () => {
+    await expect(reverseGeocode(position)).resolves.toBe('Praça da Sé - São Paulo');
+    await expect(reverseGeocode({ latitude: -23.55054, longitude: -46.63333 })).resolves.toBe(
+      'Praça da Sé - São Paulo'
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toContain('lat=-23.55052&lon=-46.63331');
+  });
+
+  it('identifies the app by its application id', async () => {
+    (Constants as any).expoConfig = {
+      extra: {},
+      android: { package: 'com.vrveiculorastreado.app' },
+      ios: { bundleIdentifier: 'com.vrveiculorastreado.app' },
+    };
+
+    await reverseGeocode(position);
+
+    expect(fetchMock.mock.calls[0][1].headers['User-Agent']).toContain('(com.vrveiculorastreado.app)');
+    (Constants as any).expoConfig = { extra: {} };
+  });
+
+  it('shares a lookup in progress', async () => {
+    const [first, second] = await Promise.all([reverseGeocode(position), reverseGeocode(position)]);
+
+    expect(first).toBe(second);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache failures', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 503 });
+
+    await expect(reverseGeocode(position)).resolves.toBeNull();
+    await expect(reverseGeocode(position)).resolves.toBe('Praça da Sé - São Paulo');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
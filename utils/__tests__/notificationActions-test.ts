@@ -0,0 +1,94 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { getGeofenceExitTitle } from '../geofences';
+import { handleBackgroundMessage } from '../notificationActions';
+
+jest.mock('expo-notifications', () => ({
+  AndroidImportance: { NONE: 0, LOW: 2, HIGH: 4, MAX: 5 },
+  AndroidAudioUsage: { ALARM: 4 },
+  AndroidAudioContentType: { SONIFICATION: 4 },
+  AndroidNotificationVisibility: { PUBLIC: 1 },
+  setNotificationCategoryAsync: jest.fn().mockResolvedValue(undefined),
+  scheduleNotificationAsync: jest.fn().mockResolvedValue('id'),
+}));
+
+jest.mock('../inbox', () => ({
+  recordNotification: jest.fn(async (message: any) => require('../vehicleEvent').parseVehicleEvent(message.data).event),
+  loadInbox: jest.fn().mockResolvedValue([]),
+  markInboxEntryRead: jest.fn(),
+}));
+
+jest.mock('../geofences', () => ({
+  getGeofenceExitTitle: jest.fn(),
+}));
+
+jest.mock('../toast', () => ({
+  showToast: jest.fn(),
+}));
+
+const schedule = Notifications.scheduleNotificationAsync as jest.Mock;
+const geofenceExitTitle = getGeofenceExitTitle as jest.Mock;
+
+const position = { placa: 'ABC1D23', latitude: '-23.55', longitude: '-46.63' };
+
+describe('handleBackgroundMessage', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    schedule.mockClear();
+    geofenceExitTitle.mockResolvedValue(null);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('displays data-only alerts with their category', async () => {
+    await handleBackgroundMessage({ messageId: '1', data: { ...position, category: 'panic', title: 'Pânico', message: 'Botão acionado' } } as any);
+
+    expect(schedule).toHaveBeenCalledTimes(1);
+    expect(schedule.mock.calls[0][0].content).toEqual(
+      expect.objectContaining({ title: 'Pânico', body: 'Botão acionado', categoryIdentifier: 'panic' })
+    );
+  });
+
+  it('titles data-only positions with the geofence exit', async () => {
+    geofenceExitTitle.mockResolvedValue('ABC1D23 saiu de Garagem');
+
+    await handleBackgroundMessage({ messageId: '2', data: position } as any);
+
+    expect(schedule).toHaveBeenCalledTimes(1);
+    expect(schedule.mock.calls[0][0].content).toEqual(
+      expect.objectContaining({ title: 'ABC1D23 saiu de Garagem', categoryIdentifier: 'geofence_exit' })
+    );
+  });
+
+  it('leaves pushes with a notification payload to the system', async () => {
+    await handleBackgroundMessage({
+      messageId: '3',
+      notification: { title: 'Pânico', body: 'Botão acionado' },
+      data: { ...position, category: 'panic' },
+    } as any);
+
+    expect(schedule).not.toHaveBeenCalled();
+  });
+
+  it('does not duplicate a system notification for a geofence exit', async () => {
+    geofenceExitTitle.mockResolvedValue('ABC1D23 saiu de Garagem');
+
+    await handleBackgroundMessage({
+      messageId: '4',
+      notification: { title: 'Posição', body: 'Veículo em movimento' },
+      data: position,
+    } as any);
+
+    expect(geofenceExitTitle).toHaveBeenCalled();
+    expect(schedule).not.toHaveBeenCalled();
+  });
+
+  it('ignores data-only pushes that are not alerts', async () => {
+    await handleBackgroundMessage({ messageId: '5', data: position } as any);
+
+    expect(schedule).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,61 @@
+import { Linking, Platform } from 'react-native';
+import Constants from 'expo-constants';
+import { getNotificationChannelId, openNotificationChannelSettings } from '../notificationChannels';
+
+jest.mock('expo-notifications', () => ({
+  AndroidImportance: { NONE: 0, LOW: 2, HIGH: 4, MAX: 5 },
+  AndroidAudioUsage: { ALARM: 4 },
+  AndroidAudioContentType: { SONIFICATION: 4 },
+  AndroidNotificationVisibility: { PUBLIC: 1 },
+}));
+
+describe('getNotificationChannelId', () => {
+  it('uses the requested channel when it exists', () => {
+    expect(getNotificationChannelId({ channel: 'routine' })).toBe('routine');
+  });
+
+  it('uses the channel of the alert category', () => {
+    expect(getNotificationChannelId({ category: 'panico', channel: 'unknown' })).toBe('panic');
+    expect(getNotificationChannelId({ category: 'ignicao' })).toBe('routine');
+  });
+
+  it('falls back to the default channel', () => {
+    expect(getNotificationChannelId({ title: 'Aviso' })).toBe('high-priority');
+  });
+});
+
+describe('openNotificationChannelSettings', () => {
+  const os = Platform.OS;
+  let sendIntent: jest.SpyInstance;
+
+  beforeEach(() => {
+    Platform.OS = 'android';
+    (Constants as any).expoConfig = { extra: {}, android: { package: 'com.vrveiculorastreado.app' } };
+    sendIntent = jest.spyOn(Linking, 'sendIntent').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    Platform.OS = os;
+    (Constants as any).expoConfig = { extra: {} };
+    jest.restoreAllMocks();
+  });
+
+  it('opens the channel of the installed application id', async () => {
+    await openNotificationChannelSettings('panic');
+
+    expect(sendIntent).toHaveBeenCalledWith('android.settings.CHANNEL_NOTIFICATION_SETTINGS', [
+      { key: 'android.provider.extra.APP_PACKAGE', value: 'com.vrveiculorastreado.app' },
+      { key: 'android.provider.extra.CHANNEL_ID', value: 'panic' },
+    ]);
+  });
+
+  it('opens the app settings when the intent fails', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    sendIntent.mockRejectedValue(new Error('No activity'));
+    const openSettings = jest.spyOn(Linking, 'openSettings').mockResolvedValue();
+
+    await openNotificationChannelSettings('panic');
+
+    expect(openSettings).toHaveBeenCalled();
+  });
+});
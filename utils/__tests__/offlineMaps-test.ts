@@ -0,0 +1,61 @@
+import { OfflineManager } from '@maplibre/maplibre-react-native';
+import { cacheAlertRegion } from '../offlineMaps';
+
+jest.mock('@maplibre/maplibre-react-native', () => ({
+  OfflineManager: {
+    setMaximumAmbientCacheSize: jest.fn().mockResolvedValue(undefined),
+    getPacks: jest.fn().mockResolvedValue([]),
+    createPack: jest.fn().mockResolvedValue(undefined),
+    deletePack: jest.fn().mockResolvedValue(undefined),
+    subscribe: jest.fn(),
+  },
+  setConnected: jest.fn(),
+}));
+
+jest.mock('../mapStyles', () => ({
+  getOfflineStyleUrl: () => 'https://maps.example.com/style.json',
+}));
+
+const alertAt = (latitude: number, longitude: number) => ({ title: 'Alerta', message: '', latitude, longitude });
+
+describe('cacheAlertRegion', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    (OfflineManager.createPack as jest.Mock).mockClear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('caches a burst of alerts together, only the latest positions', async () => {
+    for (let index = 0; index < 6; index++) {
+      await cacheAlertRegion(alertAt(-23.5 - index * 0.1, -46.6));
+    }
+    expect(OfflineManager.createPack).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(10000);
+
+    const labels = (OfflineManager.createPack as jest.Mock).mock.calls.map(([options]) => options.metadata.label);
+    expect(labels).toEqual(['Alerta -23.80, -46.60', 'Alerta -23.90, -46.60', 'Alerta -24.00, -46.60']);
+  });
+
+  it('creates one pack for repeated alerts in the same area', async () => {
+    await cacheAlertRegion(alertAt(-23.551, -46.633));
+    await cacheAlertRegion(alertAt(-23.552, -46.634));
+
+    await jest.advanceTimersByTimeAsync(10000);
+
+    expect(OfflineManager.createPack).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores alerts without coordinates', async () => {
+    await cacheAlertRegion({ title: 'Alerta', message: '' });
+
+    await jest.advanceTimersByTimeAsync(10000);
+
+    expect(OfflineManager.createPack).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,66 @@
+import { buildPortalEventPath, buildPortalUrl, isAllowedPortalUrl } from '../portal';
+
+const baseUrl = 'https://m.wefleet.com.br/mob/mfrastreadores';
+
+describe('buildPortalUrl', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('adds the device token to the base URL', () => {
+    expect(buildPortalUrl(baseUrl, 'token')).toBe(`${baseUrl}?device=token`);
+    expect(buildPortalUrl(baseUrl, null)).toBe(baseUrl);
+  });
+
+  it('keeps paths under the base path of the portal', () => {
+    expect(buildPortalUrl(baseUrl, 'token', '/veiculo/ABC1D23')).toBe(`${baseUrl}/veiculo/ABC1D23?device=token`);
+    expect(buildPortalUrl(baseUrl, 'token', 'relatorios?id=10')).toBe(`${baseUrl}/relatorios?id=10&device=token`);
+    expect(buildPortalUrl(`${baseUrl}/`, null, '/veiculo/ABC1D23')).toBe(`${baseUrl}/veiculo/ABC1D23`);
+  });
+
+  it('opens the event path of an alert inside the portal app', () => {
+    const path = buildPortalEventPath({ placa: 'ABC 1D23', id: '42' }, ['/veiculo/{placa}/evento/{id}']);
+
+    expect(buildPortalUrl(baseUrl, 'token', path!)).toBe(`${baseUrl}/veiculo/ABC%201D23/evento/42?device=token`);
+  });
+
+  it('accepts full portal URLs', () => {
+    expect(buildPortalUrl(baseUrl, 'token', 'https://m2.wefleet.com.br/mob/outro')).toBe('https://m2.wefleet.com.br/mob/outro?device=token');
+  });
+
+  it('falls back to the base URL for links outside the portal', () => {
+    expect(buildPortalUrl(baseUrl, 'token', 'https://example.com/phishing')).toBe(`${baseUrl}?device=token`);
+    expect(buildPortalUrl(baseUrl, null, '//example.com/phishing')).toBe(`${baseUrl}/example.com/phishing`);
+  });
+});
+
+describe('buildPortalEventPath', () => {
+  it('uses the first template filled by the event', () => {
+    const templates = ['/veiculo/{placa}/evento/{id}', '/veiculo/{placa}'];
+
+    expect(buildPortalEventPath({ placa: 'ABC1D23', id: '42' }, templates)).toBe('/veiculo/ABC1D23/evento/42');
+    expect(buildPortalEventPath({ placa: 'ABC1D23' }, templates)).toBe('/veiculo/ABC1D23');
+    expect(buildPortalEventPath({}, templates)).toBeNull();
+  });
+});
+
+describe('isAllowedPortalUrl', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('accepts only https portal URLs', () => {
+    expect(isAllowedPortalUrl('https://m.wefleet.com.br/mob')).toBe(true);
+    expect(isAllowedPortalUrl('http://m.wefleet.com.br/mob')).toBe(false);
+    expect(isAllowedPortalUrl('not a url')).toBe(false);
+  });
+});
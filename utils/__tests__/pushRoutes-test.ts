@@ -0,0 +1,98 @@
+import { getNotificationRoute, openPushRoute, resolvePushRoute } from '../pushRoutes';
+
+// Portal of the brand in rebrand-config.json
+const PORTAL_URL = 'https://m.wefleet.com.br/mob/mfrastreadores/veiculo/ABC1D23';
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('resolvePushRoute', () => {
+  it('returns null without screen or url', () => {
+    expect(resolvePushRoute({ title: 'Alerta' })).toBeNull();
+  });
+
+  it('opens the declared screens', () => {
+    expect(resolvePushRoute({ screen: 'inbox' })).toEqual({ pathname: '/inbox', params: {} });
+    expect(resolvePushRoute({ screen: '/Settings' })).toEqual({ pathname: '/settings', params: {} });
+  });
+
+  it('accepts the screen aliases', () => {
+    expect(resolvePushRoute({ screen: 'index' })).toEqual({ pathname: '/', params: {} });
+  });
+
+  it('falls back to the inbox for unknown screens', () => {
+    expect(resolvePushRoute({ screen: 'admin' })).toEqual({ pathname: '/inbox', params: {} });
+  });
+
+  it('does not take inherited object keys as screens', () => {
+    expect(resolvePushRoute({ screen: 'constructor' })).toEqual({ pathname: '/inbox', params: {} });
+    expect(resolvePushRoute({ screen: 'toString' })).toEqual({ pathname: '/inbox', params: {} });
+  });
+
+  it('passes the declared map params only', () => {
+    expect(resolvePushRoute({ screen: 'map', lat: '-23.55', lon: '-46.63', vel: '62', extra: 'x' })).toEqual({
+      pathname: '/map',
+      params: { lat: '-23.55', lon: '-46.63', vel: '62' },
+    });
+  });
+
+  it('falls back when a required param is missing or invalid', () => {
+    expect(resolvePushRoute({ screen: 'map', lat: '-23.55' })?.pathname).toBe('/inbox');
+    expect(resolvePushRoute({ screen: 'map', lat: '-123', lon: '-46.63' })?.pathname).toBe('/inbox');
+    expect(resolvePushRoute({ screen: 'map', lat: '-23.55', lon: '-46.63', vel: 'rápido' })?.pathname).toBe('/inbox');
+  });
+
+  it('opens portal urls on the portal screen', () => {
+    expect(resolvePushRoute({ url: PORTAL_URL })).toEqual({ pathname: '/', params: { portalPath: PORTAL_URL } });
+  });
+
+  it('rejects urls outside the portal or without https', () => {
+    expect(resolvePushRoute({ url: 'https://example.org/phishing' })?.pathname).toBe('/inbox');
+    expect(resolvePushRoute({ url: PORTAL_URL.replace('https:', 'http:') })?.pathname).toBe('/inbox');
+  });
+});
+
+describe('getNotificationRoute', () => {
+  it('opens the map for pushes with coordinates, whatever the screen', () => {
+    const route = getNotificationRoute({ screen: 'inbox', lat: '-23.55', lon: '-46.63', placa: 'ABC1D23' });
+    expect(route.pathname).toBe('/map');
+    expect(route.params).toMatchObject({ latitude: '-23.55', longitude: '-46.63', placa: 'ABC1D23' });
+  });
+
+  it('uses the screen field without coordinates', () => {
+    expect(getNotificationRoute({ screen: 'settings' }).pathname).toBe('/settings');
+  });
+
+  it('shows the notification text on the map otherwise', () => {
+    expect(getNotificationRoute({}, { title: 'Aviso', body: 'Texto' })).toEqual({
+      pathname: '/map',
+      params: { title: 'Aviso', message: 'Texto' },
+    });
+  });
+});
+
+describe('openPushRoute', () => {
+  const createRouter = () => ({ navigate: jest.fn(), push: jest.fn() });
+
+  it('navigates back to the portal screen instead of stacking it', () => {
+    const router = createRouter();
+    openPushRoute(router as any, { pathname: '/', params: { portalPath: PORTAL_URL } });
+
+    expect(router.navigate).toHaveBeenCalledWith({ pathname: '/', params: { portalPath: PORTAL_URL } });
+    expect(router.push).not.toHaveBeenCalled();
+  });
+
+  it('pushes the other screens', () => {
+    const router = createRouter();
+    openPushRoute(router as any, { pathname: '/inbox', params: {} });
+
+    expect(router.push).toHaveBeenCalledWith({ pathname: '/inbox', params: {} });
+    expect(router.navigate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,168 @@
+import {
+  parseBrazilianDate,
+  parseDecimal,
+  parseVehicleEvent,
+  splitMessageDriver,
+  vehicleEventToParams,
+} from '../vehicleEvent';
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('parseDecimal', () => {
+  it('accepts comma and dot as decimal separator', () => {
+    expect(parseDecimal('-23,5505')).toBe(-23.5505);
+    expect(parseDecimal('-46.6333')).toBe(-46.6333);
+  });
+
+  it('ignores trailing units', () => {
+    expect(parseDecimal('45 km/h')).toBe(45);
+  });
+
+  it('returns NaN for text without a leading number', () => {
+    expect(parseDecimal('km 45')).toBeNaN();
+    expect(parseDecimal('')).toBeNaN();
+  });
+});
+
+describe('parseBrazilianDate', () => {
+  it('parses dd/mm/yyyy hh:mm:ss as local time', () => {
+    expect(parseBrazilianDate('12/03/2025 14:05:09')).toEqual(new Date(2025, 2, 12, 14, 5, 9));
+  });
+
+  it('parses dates without time and two digit years', () => {
+    expect(parseBrazilianDate('1/2/25')).toEqual(new Date(2025, 1, 1));
+  });
+
+  it('rejects overflowing days', () => {
+    expect(parseBrazilianDate('31/02/2025')).toBeNull();
+  });
+
+  it('falls back to ISO 8601', () => {
+    expect(parseBrazilianDate('2025-03-12T17:05:00Z')).toEqual(new Date(Date.UTC(2025, 2, 12, 17, 5)));
+  });
+
+  it('returns null for other text', () => {
+    expect(parseBrazilianDate('ontem')).toBeNull();
+  });
+});
+
+describe('splitMessageDriver', () => {
+  it('extracts the driver segment', () => {
+    expect(splitMessageDriver('Ignição ligada | Mot: João Silva')).toEqual({
+      text: 'Ignição ligada',
+      motorista: 'João Silva',
+    });
+  });
+
+  it('accepts the segment glued to the previous word', () => {
+    expect(splitMessageDriver('Ignição ligadaMot: João').motorista).toBe('João');
+  });
+
+  it('keeps messages without driver', () => {
+    expect(splitMessageDriver('Excesso de velocidade')).toEqual({ text: 'Excesso de velocidade' });
+  });
+});
+
+describe('parseVehicleEvent', () => {
+  it('normalizes the push fields', () => {
+    const { event, invalidFields } = parseVehicleEvent({
+      title: 'Alerta',
+      message: 'Ignição ligada',
+      lat: '-23,5505',
+      lon: '-46.6333',
+      placa: 'abc-1d23',
+      end: 'Av. Paulista, 1000',
+      vel: '62 km/h',
+      dt: '12/03/2025 14:05',
+      ign: '1',
+      id: '42',
+    });
+
+    expect(invalidFields).toEqual([]);
+    expect(event).toMatchObject({
+      title: 'Alerta',
+      message: 'Ignição ligada',
+      latitude: -23.5505,
+      longitude: -46.6333,
+      placa: 'ABC1D23',
+      endereco: 'Av. Paulista, 1000',
+      velocidade: 62,
+      dataText: '12/03/2025 14:05',
+      ignicao: 'on',
+      ignicaoCode: '1',
+      id: '42',
+    });
+    expect(event.data).toEqual(new Date(2025, 2, 12, 14, 5));
+  });
+
+  it('uses the notification title and body as defaults', () => {
+    const { event } = parseVehicleEvent({}, { title: 'Título', body: 'Corpo' });
+    expect(event.title).toBe('Título');
+    expect(event.message).toBe('Corpo');
+  });
+
+  it('reads the first value of array route params', () => {
+    const { event } = parseVehicleEvent({ placa: ['ABC1D23', 'XYZ9A87'] });
+    expect(event.placa).toBe('ABC1D23');
+  });
+
+  it('drops a lone coordinate and reports the missing one', () => {
+    const { event, invalidFields } = parseVehicleEvent({ lat: '-23.55' });
+    expect(event.latitude).toBeUndefined();
+    expect(invalidFields).toEqual(['longitude']);
+  });
+
+  it('reports coordinates out of range', () => {
+    const { event, invalidFields } = parseVehicleEvent({ lat: '-123', lon: '-46.6' });
+    expect(event.latitude).toBeUndefined();
+    expect(event.longitude).toBeUndefined();
+    expect(invalidFields).toEqual(['latitude']);
+  });
+
+  it('reports malformed speed and date', () => {
+    const { event, invalidFields } = parseVehicleEvent({ vel: 'rápido', dt: 'ontem' });
+    expect(event.velocidade).toBeUndefined();
+    expect(event.dataText).toBe('ontem');
+    expect(invalidFields).toEqual(['velocidade', 'data']);
+  });
+
+  it('reads the driver from the message when not sent apart', () => {
+    const { event } = parseVehicleEvent({ message: 'Ignição ligada Mot: Maria' });
+    expect(event.motorista).toBe('Maria');
+  });
+
+  it('parses a route trail sorted by date', () => {
+    const { event } = parseVehicleEvent({
+      trail: JSON.stringify([
+        { lat: -23.56, lon: -46.64, dt: '12/03/2025 14:10' },
+        { lat: -23.55, lon: -46.63, dt: '12/03/2025 14:05' },
+        { lat: 'x', lon: -46.62, dt: '12/03/2025 14:00' },
+      ]),
+    });
+
+    expect(event.trail?.map(point => point.latitude)).toEqual([-23.55, -23.56]);
+  });
+
+  it('reports a trail that is not a list', () => {
+    expect(parseVehicleEvent({ trail: '{broken' }).invalidFields).toEqual(['trail']);
+  });
+
+  it('round trips through the map route params', () => {
+    const { event } = parseVehicleEvent({
+      lat: '-23.5505',
+      lon: '-46.6333',
+      placa: 'ABC1D23',
+      vel: '62',
+      dt: '12/03/2025 14:05',
+      ign: '0',
+    });
+
+    expect(parseVehicleEvent(vehicleEventToParams(event)).event).toEqual(event);
+  });
+});
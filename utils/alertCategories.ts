@@ -0,0 +1,121 @@
+/**
+ * Alert categories
+ * Types of vehicle alerts sent by the server in the `category` push field,
+ * and the notification buttons offered for each of them.
+ */
+
+import { TelemetryEventKind } from './config';
+import { decodeTelemetryEvent } from './telemetry';
+import { VehicleEventPayload } from './vehicleEvent';
+
+/**
+ * Alert types with their own notification buttons
+ */
+export type AlertCategoryId = 'panic' | 'ignition_on' | 'geofence_exit' | 'speeding' | 'low_battery';
+
+/**
+ * Notification buttons
+ */
+export type AlertActionId = 'view_map' | 'call_driver' | 'block_vehicle' | 'acknowledge';
+
+/**
+ * An alert type and its buttons, at most three so they all show on Android
+ */
+export interface AlertCategory {
+  id: AlertCategoryId;
+  label: string;
+  actions: AlertActionId[];
+}
+
+export const ALERT_ACTION_LABELS: Record<AlertActionId, string> = {
+  view_map: 'Ver no mapa',
+  call_driver: 'Ligar para o motorista',
+  block_vehicle: 'Bloquear veículo',
+  acknowledge: 'Ciente',
+};
+
+export const ALERT_CATEGORIES: Record<AlertCategoryId, AlertCategory> = {
+  panic: {
+    id: 'panic',
+    label: 'Pânico',
+    actions: ['view_map', 'call_driver', 'block_vehicle'],
+  },
+  ignition_on: {
+    id: 'ignition_on',
+    label: 'Ignição ligada',
+    actions: ['view_map', 'block_vehicle', 'acknowledge'],
+  },
+  geofence_exit: {
+    id: 'geofence_exit',
+    label: 'Saída de cerca',
+    actions: ['view_map', 'block_vehicle', 'acknowledge'],
+  },
+  speeding: {
+    id: 'speeding',
+    label: 'Excesso de velocidade',
+    actions: ['view_map', 'call_driver', 'acknowledge'],
+  },
+  low_battery: {
+    id: 'low_battery',
+    label: 'Bateria baixa',
+    actions: ['view_map', 'acknowledge'],
+  },
+};
+
+// Names used by the server in Portuguese
+const CATEGORY_ALIASES: Record<string, AlertCategoryId> = {
+  panico: 'panic',
+  ignicao: 'ignition_on',
+  ignicao_ligada: 'ignition_on',
+  cerca: 'geofence_exit',
+  saida_cerca: 'geofence_exit',
+  velocidade: 'speeding',
+  excesso_velocidade: 'speeding',
+  bateria: 'low_battery',
+  bateria_baixa: 'low_battery',
+};
+
+// Category of the tracker events sent without `category`, jamming and battery cut are handled as theft
+const TELEMETRY_EVENT_CATEGORIES: Partial<Record<TelemetryEventKind, AlertCategoryId>> = {
+  panic: 'panic',
+  jamming: 'panic',
+  battery_cut: 'panic',
+  ignition_on: 'ignition_on',
+  geofence_exit: 'geofence_exit',
+  speeding: 'speeding',
+  low_battery: 'low_battery',
+};
+
+/**
+ * Get the category of the tracker event code of a push
+ */
+function getTelemetryEventCategory(data: VehicleEventPayload): AlertCategoryId | null {
+  const code = data?.evt ?? data?.evento;
+  if (typeof code !== 'string' || !code.trim()) return null;
+
+  const model = data?.modelo ?? data?.model;
+  const event = decodeTelemetryEvent(code.trim(), typeof model === 'string' ? model.trim() || undefined : undefined);
+  return (event?.kind && TELEMETRY_EVENT_CATEGORIES[event.kind]) || null;
+}
+
+/**
+ * Get the alert category of a push, from its `category` (or `tipo`) field,
+ * or else from its tracker event code (`evt`)
+ * @param {VehicleEventPayload} data The push data
+ * @returns {AlertCategoryId | null} The category, or null for plain notifications
+ */
+export function parseAlertCategory(data: VehicleEventPayload): AlertCategoryId | null {
+  const value = data?.category ?? data?.tipo;
+  if (typeof value !== 'string') return getTelemetryEventCategory(data);
+
+  const name = value
+    .trim()
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\s-]+/g, '_');
+
+  // Own keys only, names such as "constructor" are not categories
+  if (Object.prototype.hasOwnProperty.call(ALERT_CATEGORIES, name)) return name as AlertCategoryId;
+  return Object.prototype.hasOwnProperty.call(CATEGORY_ALIASES, name) ? CATEGORY_ALIASES[name] : null;
+}
@@ -0,0 +1,128 @@
+/**
+ * Alert grouping
+ * Bursts of alerts from the same vehicle (e.g. while it crosses an area with bad coverage)
+ * are grouped by plate, so they are shown as one summary instead of replacing each other.
+ */
+
+import { normalizePlate } from './alertPreferences';
+import { InboxEntry } from './inbox';
+
+// Alerts of the same plate received within this time of each other are grouped (ms)
+export const ALERT_GROUP_WINDOW = 2 * 60 * 1000;
+
+/**
+ * An alert waiting to be seen
+ */
+export interface QueuedAlert {
+  id: string;
+  title: string;
+  body: string;
+  data?: any;
+  icon?: any;
+  placa?: string;
+  receivedAt: number;
+}
+
+/**
+ * Alerts of one vehicle, newest first
+ * Alerts without plate are never grouped
+ */
+export interface AlertGroup {
+  key: string;
+  placa?: string;
+  alerts: QueuedAlert[];
+  updatedAt: number;
+}
+
+/**
+ * Add an alert to the group of its vehicle, or to a new group
+ * @param {AlertGroup[]} groups The current groups, most recently updated first
+ * @param {QueuedAlert} alert The received alert
+ * @param {number} window Time between alerts of the same group (ms)
+ * @returns {AlertGroup[]} The updated groups, most recently updated first
+ */
+export function addToAlertGroups(
+  groups: AlertGroup[],
+  alert: QueuedAlert,
+  window: number = ALERT_GROUP_WINDOW
+): AlertGroup[] {
+  const placa = alert.placa ? normalizePlate(alert.placa) : '';
+  const existing = placa
+    ? groups.find(group => group.placa === placa && alert.receivedAt - group.updatedAt <= window)
+    : undefined;
+
+  if (!existing) {
+    const group: AlertGroup = {
+      key: `${placa || 'alert'}-${alert.id}`,
+      placa: placa || undefined,
+      alerts: [alert],
+      updatedAt: alert.receivedAt,
+    };
+    return [group, ...groups];
+  }
+
+  const updated: AlertGroup = {
+    ...existing,
+    alerts: [alert, ...existing.alerts],
+    updatedAt: alert.receivedAt,
+  };
+  return [updated, ...groups.filter(group => group !== existing)];
+}
+
+/**
+ * Remove alerts from their groups, dropping the groups left empty
+ * @param {AlertGroup[]} groups The current groups
+ * @param {Set<string>} ids Ids of the alerts to remove
+ * @returns {AlertGroup[]} The remaining groups, in the same order
+ */
+export function removeFromAlertGroups(groups: AlertGroup[], ids: Set<string>): AlertGroup[] {
+  return groups
+    .map(group => ({ ...group, alerts: group.alerts.filter(alert => !ids.has(alert.id)) }))
+    .filter(group => group.alerts.length > 0);
+}
+
+/**
+ * Summary of several alerts of a vehicle
+ * @param {string} placa The vehicle plate
+ * @param {number} count The number of alerts
+ * @returns {string} e.g. "ABC1D23: 7 novos alertas"
+ */
+export function formatAlertBurstSummary(placa: string, count: number): string {
+  return `${normalizePlate(placa)}: ${count} novos alertas`;
+}
+
+/**
+ * Summary shown for a group
+ * @param {AlertGroup} group The group
+ * @returns {string} The burst summary, or the alert title when it is alone
+ */
+export function getAlertGroupSummary(group: AlertGroup): string {
+  if (group.alerts.length === 1 || !group.placa) {
+    return group.alerts[0].title;
+  }
+  return formatAlertBurstSummary(group.placa, group.alerts.length);
+}
+
+/**
+ * Count the unread inbox entries of a vehicle in its current burst
+ * Used to summarize the system notification of the vehicle when the app is in the background
+ * @param {InboxEntry[]} entries The inbox entries, newest first
+ * @param {string} placa The vehicle plate
+ * @param {number} window Time between alerts of the same burst (ms)
+ * @returns {number} The number of alerts in the burst, at least 1 when the newest entry is of the vehicle
+ */
+export function countAlertBurst(entries: InboxEntry[], placa: string, window: number = ALERT_GROUP_WINDOW): number {
+  const plate = normalizePlate(placa);
+  let count = 0;
+  let lastReceivedAt: number | null = null;
+
+  for (const entry of entries) {
+    if (!entry.placa || normalizePlate(entry.placa) !== plate) continue;
+    if (entry.read || (lastReceivedAt !== null && lastReceivedAt - entry.receivedAt > window)) break;
+
+    count++;
+    lastReceivedAt = entry.receivedAt;
+  }
+
+  return count;
+}
@@ -0,0 +1,298 @@
+/**
+ * Alert preferences
+ * User choices that decide which pushes are shown and how, and the filters
+ * set by the portal through the bridge, both persisted on the device.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AlertCategoryId, parseAlertCategory } from './alertCategories';
+import { VehicleEvent, VehicleEventPayload } from './vehicleEvent';
+
+const STORAGE_KEY = '@alertPreferences/preferences';
+const PORTAL_FILTERS_STORAGE_KEY = '@alertPreferences/portalFilters';
+
+/**
+ * How foreground pushes are shown: the InAppNotification modal or a toast
+ */
+export type ForegroundDisplay = 'modal' | 'toast';
+
+/**
+ * Period of the day when alerts are not shown, times as HH:MM
+ * The period goes past midnight when `end` is before `start`
+ */
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+/**
+ * Stored alert preferences
+ */
+export interface AlertPreferences {
+  quietHours: QuietHours;
+  // Normalized plates, see normalizePlate
+  mutedPlates: string[];
+  mutedCategories: AlertCategoryId[];
+  // Speeding alerts below this speed (km/h) are not shown, 0 shows all of them
+  minSpeed: number;
+  foregroundDisplay: ForegroundDisplay;
+}
+
+/**
+ * Filters managed by the user settings in the portal, applied on top of the preferences
+ */
+export interface PortalAlertFilters {
+  // Normalized plates, see normalizePlate
+  mutedPlates: string[];
+  mutedCategories: AlertCategoryId[];
+  quietHours: QuietHours;
+  // When the portal last sent the filters, null when it never did
+  updatedAt: number | null;
+}
+
+/**
+ * Why an alert was not shown
+ */
+export type AlertFilterReason = 'quietHours' | 'mutedPlate' | 'mutedCategory' | 'belowMinSpeed';
+
+type AlertPreferencesListener = (preferences: AlertPreferences) => void;
+type PortalAlertFiltersListener = (filters: PortalAlertFilters) => void;
+
+// Rules shared by the preferences and the portal filters
+type MuteRules = Pick<AlertPreferences, 'mutedPlates' | 'mutedCategories' | 'quietHours'>;
+
+export const DEFAULT_ALERT_PREFERENCES: AlertPreferences = {
+  quietHours: { enabled: false, start: '22:00', end: '07:00' },
+  mutedPlates: [],
+  mutedCategories: [],
+  minSpeed: 0,
+  foregroundDisplay: 'modal',
+};
+
+export const DEFAULT_PORTAL_ALERT_FILTERS: PortalAlertFilters = {
+  mutedPlates: [],
+  mutedCategories: [],
+  quietHours: { enabled: false, start: '22:00', end: '07:00' },
+  updatedAt: null,
+};
+
+// Alert types shown even during quiet hours
+const QUIET_HOURS_EXEMPT: AlertCategoryId[] = ['panic'];
+
+let cachedPreferences: AlertPreferences | null = null;
+const listeners = new Set<AlertPreferencesListener>();
+
+let cachedPortalFilters: PortalAlertFilters | null = null;
+const portalFiltersListeners = new Set<PortalAlertFiltersListener>();
+
+/**
+ * Normalize a plate so "abc-1d23" and "ABC1D23" match
+ * @param {string} plate The plate
+ * @returns {string} The plate in upper case without separators
+ */
+export function normalizePlate(plate: string): string {
+  return plate.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Parse a HH:MM time
+ * @param {string} value The time
+ * @returns {number | null} Minutes since midnight, or null when invalid
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Load the preferences, falling back to the defaults for missing fields
+ * @returns {Promise<AlertPreferences>} The preferences
+ */
+export async function loadAlertPreferences(): Promise<AlertPreferences> {
+  if (cachedPreferences) return cachedPreferences;
+
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    cachedPreferences = { ...DEFAULT_ALERT_PREFERENCES, ...(stored ? JSON.parse(stored) : {}) };
+  } catch (error) {
+    console.error('AlertPreferences: Failed to load preferences:', error);
+    cachedPreferences = { ...DEFAULT_ALERT_PREFERENCES };
+  }
+
+  return cachedPreferences!;
+}
+
+/**
+ * Change some of the preferences and notify listeners
+ * @param {Partial<AlertPreferences>} changes The changed preferences
+ */
+export async function updateAlertPreferences(changes: Partial<AlertPreferences>): Promise<void> {
+  const preferences = { ...(await loadAlertPreferences()), ...changes };
+  cachedPreferences = preferences;
+
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error('AlertPreferences: Failed to save preferences:', error);
+  }
+
+  listeners.forEach(listener => listener(preferences));
+}
+
+/**
+ * Register a callback for preference changes
+ * @param {Function} listener Function to call with the updated preferences
+ * @returns {Function} Unsubscribe function
+ */
+export function onAlertPreferencesChange(listener: AlertPreferencesListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Load the filters set by the portal
+ * @returns {Promise<PortalAlertFilters>} The filters, empty when the portal never sent them
+ */
+export async function loadPortalAlertFilters(): Promise<PortalAlertFilters> {
+  if (cachedPortalFilters) return cachedPortalFilters;
+
+  try {
+    const stored = await AsyncStorage.getItem(PORTAL_FILTERS_STORAGE_KEY);
+    cachedPortalFilters = { ...DEFAULT_PORTAL_ALERT_FILTERS, ...(stored ? JSON.parse(stored) : {}) };
+  } catch (error) {
+    console.error('AlertPreferences: Failed to load portal filters:', error);
+    cachedPortalFilters = { ...DEFAULT_PORTAL_ALERT_FILTERS };
+  }
+
+  return cachedPortalFilters!;
+}
+
+/**
+ * Replace the filters set by the portal and notify listeners
+ * @param {Omit<PortalAlertFilters, 'updatedAt'>} filters The new filters
+ * @returns {Promise<PortalAlertFilters>} The stored filters
+ */
+export async function savePortalAlertFilters(
+  filters: Omit<PortalAlertFilters, 'updatedAt'>
+): Promise<PortalAlertFilters> {
+  const stored: PortalAlertFilters = { ...filters, updatedAt: Date.now() };
+  cachedPortalFilters = stored;
+
+  try {
+    await AsyncStorage.setItem(PORTAL_FILTERS_STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.error('AlertPreferences: Failed to save portal filters:', error);
+  }
+
+  portalFiltersListeners.forEach(listener => listener(stored));
+  return stored;
+}
+
+/**
+ * Register a callback for changes of the portal filters
+ * @param {Function} listener Function to call with the updated filters
+ * @returns {Function} Unsubscribe function
+ */
+export function onPortalAlertFiltersChange(listener: PortalAlertFiltersListener): () => void {
+  portalFiltersListeners.add(listener);
+  return () => {
+    portalFiltersListeners.delete(listener);
+  };
+}
+
+/**
+ * Check whether a time falls in the quiet hours
+ * @param {QuietHours} quietHours The quiet hours
+ * @param {Date} date The time to check
+ * @returns {boolean} Whether alerts should be silenced
+ */
+export function isQuietTime(quietHours: QuietHours, date: Date = new Date()): boolean {
+  if (!quietHours.enabled) return false;
+
+  const start = parseTimeOfDay(quietHours.start);
+  const end = parseTimeOfDay(quietHours.end);
+  if (start === null || end === null || start === end) return false;
+
+  const now = date.getHours() * 60 + date.getMinutes();
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * Check an alert against muted plates, muted types and quiet hours
+ */
+function matchMuteRules(
+  category: AlertCategoryId | null,
+  event: VehicleEvent,
+  rules: MuteRules,
+  date: Date
+): AlertFilterReason | null {
+  if (category && rules.mutedCategories.includes(category)) {
+    return 'mutedCategory';
+  }
+
+  if (event.placa && rules.mutedPlates.includes(normalizePlate(event.placa))) {
+    return 'mutedPlate';
+  }
+
+  if (!(category && QUIET_HOURS_EXEMPT.includes(category)) && isQuietTime(rules.quietHours, date)) {
+    return 'quietHours';
+  }
+
+  return null;
+}
+
+/**
+ * Check a received alert against the preferences
+ * @param {VehicleEventPayload} data The push data
+ * @param {VehicleEvent} event The parsed vehicle event
+ * @param {AlertPreferences} preferences The preferences
+ * @param {Date} date The time the alert was received
+ * @returns {AlertFilterReason | null} Why the alert should not be shown, or null to show it
+ */
+export function getAlertFilterReason(
+  data: VehicleEventPayload,
+  event: VehicleEvent,
+  preferences: AlertPreferences,
+  date: Date = new Date()
+): AlertFilterReason | null {
+  const category = parseAlertCategory(data);
+
+  if (
+    category === 'speeding' &&
+    preferences.minSpeed > 0 &&
+    event.velocidade !== undefined &&
+    event.velocidade < preferences.minSpeed
+  ) {
+    return 'belowMinSpeed';
+  }
+
+  return matchMuteRules(category, event, preferences, date);
+}
+
+/**
+ * Check a received alert against the preferences and the portal filters
+ * @param {VehicleEventPayload} data The push data
+ * @param {VehicleEvent} event The parsed vehicle event
+ * @returns {Promise<AlertFilterReason | null>} Why the alert should not be shown, or null to show it
+ */
+export async function checkAlertFilters(
+  data: VehicleEventPayload,
+  event: VehicleEvent
+): Promise<AlertFilterReason | null> {
+  const [preferences, portalFilters] = await Promise.all([loadAlertPreferences(), loadPortalAlertFilters()]);
+  const date = new Date();
+
+  return (
+    getAlertFilterReason(data, event, preferences, date) ||
+    matchMuteRules(parseAlertCategory(data), event, portalFilters, date)
+  );
+}
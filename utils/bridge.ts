@@ -0,0 +1,241 @@
+/**
+ * WebView bridge protocol
+ * Typed registry of the actions the portal can call through window.MobileApp,
+ * and the request/response messages exchanged with the injected script.
+ */
+
+import { Platform } from 'react-native';
+import type { Router } from 'expo-router';
+import config from './config';
+import type { AlertPreferences, PortalAlertFilters } from './alertPreferences';
+import type { InboxEntry } from './inbox';
+import type { NotificationPermissionStatus } from './messaging';
+import type { NavigationAppId } from './navigation';
+
+/**
+ * Protocol version, sent in the handshake
+ * 1 was the fire-and-forget `appEvent` protocol, still accepted without replies
+ */
+export const BRIDGE_VERSION = 2;
+
+// Time the web side waits for a reply before rejecting (ms)
+export const BRIDGE_REQUEST_TIMEOUT = 30000;
+
+/**
+ * Error codes sent back to the portal
+ */
+export type BridgeErrorCode =
+  | 'UNKNOWN_ACTION'
+  | 'NOT_ALLOWED'
+  | 'INVALID_PARAMS'
+  | 'UNAVAILABLE'
+  | 'FAILED';
+
+/**
+ * Error thrown by a handler, replied to the portal with its code
+ */
+export class BridgeError extends Error {
+  code: BridgeErrorCode;
+
+  constructor(code: BridgeErrorCode, message: string) {
+    super(message);
+    this.name = 'BridgeError';
+    this.code = code;
+  }
+}
+
+/**
+ * Notification filters applied by the device, returned to the portal
+ */
+export interface NotificationFiltersState {
+  // FCM token the filters apply to, null when notifications are not allowed
+  token: string | null;
+  // Filters last sent by the portal
+  portal: PortalAlertFilters;
+  // Filters set by the user in the app settings, applied as well
+  device: Pick<AlertPreferences, 'mutedPlates' | 'mutedCategories' | 'quietHours' | 'minSpeed'>;
+}
+
+/**
+ * Actions available to the portal, with their params and results
+ * Add an entry here and register its handler to expose a new action
+ */
+export interface BridgeActions {
+  openWhatsApp: { params: { phone: string; message?: string }; result: boolean };
+  openSocial: { params: { type: string; username?: string; url?: string }; result: boolean };
+  openWaze: { params: { lat: string | number; lng: string | number; name?: string }; result: boolean };
+  navigateTo: {
+    params: { lat: string | number; lng: string | number; label?: string; app?: NavigationAppId | '' };
+    result: boolean;
+  };
+  showFleet: { params: { vehicles: unknown }; result: { count: number } };
+  showTrail: { params: { positions: unknown; info?: Record<string, unknown> }; result: { count: number } };
+  callPhone: { params: { phone: string }; result: boolean };
+  sendSms: {
+    params: { phone: string; command?: string; values?: Record<string, unknown>; message?: string };
+    result: boolean;
+  };
+  composeEmail: {
+    params: { to: string | string[]; cc?: string | string[]; subject?: string; body?: string };
+    result: boolean;
+  };
+  shareLocation: {
+    params: { lat: string | number; lon: string | number; [field: string]: unknown };
+    result: { shared: boolean };
+  };
+  getPushToken: { params: {}; result: { token: string | null } };
+  getNotificationPermission: { params: {}; result: { status: NotificationPermissionStatus } };
+  getRecentNotifications: { params: { limit?: number }; result: InboxEntry[] };
+  setNotificationFilters: {
+    params: { mutedPlates: unknown; mutedCategories: unknown; quietHours: unknown };
+    result: NotificationFiltersState;
+  };
+  getNotificationFilters: { params: {}; result: NotificationFiltersState };
+}
+
+export type BridgeAction = keyof BridgeActions;
+
+/**
+ * Native state available to the handlers
+ */
+export interface BridgeContext {
+  router: Router;
+}
+
+export type BridgeHandler<A extends BridgeAction> = (
+  params: Partial<BridgeActions[A]['params']>,
+  context: BridgeContext
+) => BridgeActions[A]['result'] | Promise<BridgeActions[A]['result']>;
+
+/**
+ * Request sent by the injected script
+ * Requests without id come from the version 1 protocol and get no reply
+ */
+export interface BridgeRequest {
+  id?: string;
+  action: string;
+  params?: unknown;
+}
+
+/**
+ * Reply to a request
+ */
+export interface BridgeResponse {
+  type: 'bridgeResponse';
+  id: string;
+  ok: boolean;
+  result?: unknown;
+  error?: { code: BridgeErrorCode; message: string };
+}
+
+/**
+ * Sent once the injected script reports it is initialized
+ */
+export interface BridgeHandshake {
+  type: 'handshake';
+  version: number;
+  platform: string;
+  actions: string[];
+}
+
+/**
+ * Native event dispatched to the page as a `mobileApp<Name>` DOM event
+ */
+export interface BridgeEvent {
+  type: 'event';
+  name: string;
+  detail: unknown;
+}
+
+const handlers = new Map<string, BridgeHandler<any>>();
+
+/**
+ * Register the handler of an action, replacing any previous one
+ * @param {string} action The action name
+ * @param {Function} handler Function returning the result, or throwing a BridgeError
+ */
+export function registerBridgeHandler<A extends BridgeAction>(action: A, handler: BridgeHandler<A>): void {
+  handlers.set(action, handler);
+}
+
+/**
+ * Check whether the brand lets the portal call an action
+ * @param {string} action The action name
+ * @returns {boolean} Whether the action is in config.bridge.allowedActions
+ */
+export function isBridgeActionAllowed(action: string): boolean {
+  return config.bridge.allowedActions.includes(action);
+}
+
+/**
+ * Build the handshake sent to the portal
+ * @returns {BridgeHandshake} The native version and the available actions allowed for the brand
+ */
+export function getBridgeHandshake(): BridgeHandshake {
+  return {
+    type: 'handshake',
+    version: BRIDGE_VERSION,
+    platform: Platform.OS,
+    actions: Array.from(handlers.keys()).filter(isBridgeActionAllowed),
+  };
+}
+
+/**
+ * Run the handler of a request and build its reply
+ * @param {BridgeRequest} request The request from the WebView
+ * @param {BridgeContext} context Native state for the handler
+ * @returns {Promise<BridgeResponse>} The reply, with an empty id for version 1 requests
+ */
+export async function handleBridgeRequest(request: BridgeRequest, context: BridgeContext): Promise<BridgeResponse> {
+  const id = request.id || '';
+  const handler = handlers.get(request.action);
+
+  if (!handler) {
+    return {
+      type: 'bridgeResponse',
+      id,
+      ok: false,
+      error: { code: 'UNKNOWN_ACTION', message: `Unknown action: ${request.action}` },
+    };
+  }
+
+  if (!isBridgeActionAllowed(request.action)) {
+    console.warn('Bridge: Action not allowed for this brand:', request.action);
+    return {
+      type: 'bridgeResponse',
+      id,
+      ok: false,
+      error: { code: 'NOT_ALLOWED', message: `Action not allowed: ${request.action}` },
+    };
+  }
+
+  try {
+    const params = request.params && typeof request.params === 'object' ? request.params : {};
+    const result = await handler(params, context);
+    return { type: 'bridgeResponse', id, ok: true, result };
+  } catch (error) {
+    console.error('Bridge: Error handling action:', request.action, error);
+    return {
+      type: 'bridgeResponse',
+      id,
+      ok: false,
+      error: error instanceof BridgeError
+        ? { code: error.code, message: error.message }
+        : { code: 'FAILED', message: error instanceof Error ? error.message : String(error) },
+    };
+  }
+}
+
+/**
+ * Build the script that delivers a message to the injected script
+ * @param {object} message The handshake, response or event
+ * @returns {string} JavaScript to run with injectJavaScript
+ */
+export function buildBridgeMessageScript(message: BridgeResponse | BridgeHandshake | BridgeEvent): string {
+  // Line separators are valid JSON but break JavaScript string literals on older WebViews
+  const payload = JSON.stringify(message)
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+
+  return `window.MobileApp && window.MobileApp._receive(${payload}); true;`;
+}
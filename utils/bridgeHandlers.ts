@@ -0,0 +1,441 @@
+/**
+ * Native handlers of the WebView bridge actions
+ * Imported once by WebViewScreen, which registers them in utils/bridge.
+ */
+
+import { Linking } from 'react-native';
+import { BridgeError, NotificationFiltersState, registerBridgeHandler } from './bridge';
+import { AlertCategoryId, parseAlertCategory } from './alertCategories';
+import {
+  loadAlertPreferences,
+  loadPortalAlertFilters,
+  savePortalAlertFilters,
+  normalizePlate,
+  parseTimeOfDay,
+  QuietHours,
+  DEFAULT_PORTAL_ALERT_FILTERS,
+} from './alertPreferences';
+import {
+  buildEmailLink,
+  buildPhoneLink,
+  buildSmsLink,
+  confirmAction,
+  fillSmsTemplate,
+  getSmsCommand,
+  isEmailAddress,
+  normalizePhone,
+} from './contact';
+import { setFleet, parseFleet } from './fleet';
+import { loadInbox } from './inbox';
+import { getFCMToken, getNotificationPermissionStatus } from './messaging';
+import { navigateTo, isNavigationAppId } from './navigation';
+import { shareVehicleEvent } from './share';
+import { parseVehicleEvent, parseDecimal, vehicleEventToParams, hasVehicleCoordinates } from './vehicleEvent';
+
+// Most notifications returned to the portal in one call
+const MAX_RECENT_NOTIFICATIONS = 100;
+
+/**
+ * Parse a coordinate sent by the portal
+ * @throws {BridgeError} When the value is not a number
+ */
+function requireCoordinate(value: unknown, name: string): number {
+  const parsed = parseDecimal(String(value ?? ''));
+  if (isNaN(parsed)) {
+    throw new BridgeError('INVALID_PARAMS', `Invalid ${name}: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse a list of strings sent by the portal, a missing list is empty
+ * @throws {BridgeError} When the value is not a list of strings
+ */
+function requireStringList(value: unknown, name: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new BridgeError('INVALID_PARAMS', `${name} must be a list of strings`);
+  }
+  return value;
+}
+
+/**
+ * Parse the quiet hours sent by the portal, missing quiet hours are disabled
+ * @throws {BridgeError} When the times are not HH:MM
+ */
+function requireQuietHours(value: unknown): QuietHours {
+  if (value === undefined || value === null) {
+    return DEFAULT_PORTAL_ALERT_FILTERS.quietHours;
+  }
+
+  const { enabled = true, start, end } = value as Record<string, unknown>;
+  if (typeof start !== 'string' || parseTimeOfDay(start) === null) {
+    throw new BridgeError('INVALID_PARAMS', `Invalid quietHours.start: ${start}`);
+  }
+  if (typeof end !== 'string' || parseTimeOfDay(end) === null) {
+    throw new BridgeError('INVALID_PARAMS', `Invalid quietHours.end: ${end}`);
+  }
+  return { enabled: !!enabled, start: start.trim(), end: end.trim() };
+}
+
+/**
+ * Parse a phone number sent by the portal
+ * @throws {BridgeError} When the number is missing or too short
+ */
+function requirePhone(value: unknown): string {
+  const phone = normalizePhone(String(value ?? ''));
+  if (!phone) {
+    throw new BridgeError('INVALID_PARAMS', `Invalid phone number: ${value}`);
+  }
+  return phone;
+}
+
+/**
+ * Parse email addresses sent by the portal, as a list or a comma separated string
+ * @throws {BridgeError} When an address is invalid
+ */
+function requireEmailList(value: unknown, name: string): string[] {
+  const list = typeof value === 'string'
+    ? value.split(',').map(item => item.trim()).filter(Boolean)
+    : requireStringList(value, name);
+
+  const invalid = list.find(address => !isEmailAddress(address));
+  if (invalid) {
+    throw new BridgeError('INVALID_PARAMS', `Invalid ${name} address: ${invalid}`);
+  }
+  return list.map(address => address.trim());
+}
+
+/**
+ * Open a contact link, failing when no app on the device handles it
+ */
+async function openContactLink(url: string, appName: string): Promise<void> {
+  if (!(await Linking.canOpenURL(url))) {
+    throw new BridgeError('UNAVAILABLE', `No ${appName} app available on this device`);
+  }
+
+  try {
+    await Linking.openURL(url);
+  } catch (error) {
+    console.error(`Error opening ${appName}:`, error);
+    throw new BridgeError('FAILED', `Could not open the ${appName} app`);
+  }
+}
+
+/**
+ * Get the FCM token without prompting, null when notifications are not allowed
+ */
+async function getAllowedPushToken(): Promise<string | null> {
+  const status = await getNotificationPermissionStatus();
+  if (status !== 'granted' && status !== 'provisional') {
+    return null;
+  }
+
+  return getFCMToken(false, false);
+}
+
+/**
+ * Build the notification filters currently applied by the device
+ */
+async function getNotificationFiltersState(): Promise<NotificationFiltersState> {
+  const [token, portal, preferences] = await Promise.all([
+    getAllowedPushToken(),
+    loadPortalAlertFilters(),
+    loadAlertPreferences(),
+  ]);
+  const { mutedPlates, mutedCategories, quietHours, minSpeed } = preferences;
+
+  return { token, portal, device: { mutedPlates, mutedCategories, quietHours, minSpeed } };
+}
+
+/**
+ * Open a URL, falling back to a second one when it can't be opened
+ * @returns {Promise<boolean>} Whether the first URL was opened
+ */
+async function openWithFallback(url: string, fallbackUrl: string): Promise<boolean> {
+  const supported = await Linking.canOpenURL(url);
+  await Linking.openURL(supported ? url : fallbackUrl);
+  return supported;
+}
+
+/**
+ * Opens WhatsApp with the given phone number and message
+ * Falls back to the web version when WhatsApp is not installed
+ */
+registerBridgeHandler('openWhatsApp', async ({ phone, message = '' }) => {
+  if (!phone) {
+    throw new BridgeError('INVALID_PARAMS', 'A phone number is required');
+  }
+
+  // Format phone number (remove non-numeric characters)
+  const formattedPhone = String(phone).replace(/\D/g, '');
+  const text = encodeURIComponent(message);
+
+  try {
+    await openWithFallback(
+      `whatsapp://send?phone=${formattedPhone}&text=${text}`,
+      `https://api.whatsapp.com/send?phone=${formattedPhone}&text=${text}`
+    );
+    return true;
+  } catch (error) {
+    console.error('Error opening WhatsApp:', error);
+    throw new BridgeError('FAILED', 'Could not open WhatsApp. Please make sure it is installed.');
+  }
+});
+
+/**
+ * Opens a social media app, or its website when the app is not installed
+ */
+registerBridgeHandler('openSocial', async ({ type = '', username, url }) => {
+  const network = type.toLowerCase();
+  let socialUrl = '';
+  let webUrl = url || '';
+
+  // Determine URL based on social media type
+  switch (network) {
+    case 'facebook':
+      socialUrl = username ? `fb://profile/${username}` : url || 'https://www.facebook.com';
+      webUrl = webUrl || (username ? `https://www.facebook.com/${username}` : 'https://www.facebook.com');
+      break;
+    case 'instagram':
+      socialUrl = username ? `instagram://user?username=${username}` : url || 'https://www.instagram.com';
+      webUrl = webUrl || (username ? `https://www.instagram.com/${username}` : 'https://www.instagram.com');
+      break;
+    case 'twitter':
+    case 'x':
+      socialUrl = username ? `twitter://user?screen_name=${username}` : url || 'https://twitter.com';
+      webUrl = webUrl || (username ? `https://x.com/${username}` : 'https://x.com');
+      break;
+    case 'linkedin':
+      socialUrl = url || 'https://www.linkedin.com';
+      break;
+    case 'youtube':
+      socialUrl = url || 'https://www.youtube.com';
+      break;
+    default:
+      // If type is not recognized, use the URL directly
+      socialUrl = url || '';
+      break;
+  }
+
+  if (!socialUrl) {
+    throw new BridgeError('INVALID_PARAMS', 'Invalid social media parameters');
+  }
+
+  try {
+    await openWithFallback(socialUrl, webUrl || `https://www.${network}.com`);
+    return true;
+  } catch (error) {
+    console.error(`Error opening ${type}:`, error);
+    throw new BridgeError('FAILED', `Could not open ${type}`);
+  }
+});
+
+/**
+ * Opens Waze navigation to a location, or waze.com when the app is not installed
+ */
+registerBridgeHandler('openWaze', async ({ lat, lng, name = '' }) => {
+  const latitude = requireCoordinate(lat, 'latitude');
+  const longitude = requireCoordinate(lng, 'longitude');
+
+  let wazeUrl = `waze://?ll=${latitude},${longitude}&navigate=yes`;
+  if (name) {
+    wazeUrl += `&z=10&q=${encodeURIComponent(name)}`;
+  }
+
+  try {
+    return await openWithFallback(
+      wazeUrl,
+      `https://waze.com/ul?ll=${latitude},${longitude}&navigate=yes${name ? '&q=' + encodeURIComponent(name) : ''}`
+    );
+  } catch (error) {
+    console.error('Error opening Waze:', error);
+    throw new BridgeError('FAILED', 'Could not open Waze. Please make sure it is installed.');
+  }
+});
+
+/**
+ * Hands a location off to a navigation app, asking the user when no app is given
+ */
+registerBridgeHandler('navigateTo', async ({ lat, lng, label = '', app }) => {
+  const latitude = requireCoordinate(lat, 'latitude');
+  const longitude = requireCoordinate(lng, 'longitude');
+
+  return navigateTo({ latitude, longitude, label }, isNavigationAppId(app) ? app : undefined);
+});
+
+/**
+ * Shows a list of vehicles on the native fleet map
+ */
+registerBridgeHandler('showFleet', ({ vehicles }, { router }) => {
+  const fleet = setFleet(parseFleet(vehicles));
+  if (fleet.length === 0) {
+    throw new BridgeError('INVALID_PARAMS', 'No vehicles with a valid location to show');
+  }
+
+  router.push({
+    pathname: '/map',
+    params: { mode: 'fleet' }
+  });
+  return { count: fleet.length };
+});
+
+/**
+ * Shows a vehicle route trail with playback on the native map
+ */
+registerBridgeHandler('showTrail', ({ positions, info }, { router }) => {
+  const { event } = parseVehicleEvent({ ...info, trail: positions });
+  if (!event.trail || event.trail.length < 2) {
+    throw new BridgeError('INVALID_PARAMS', 'The route trail needs at least two valid positions');
+  }
+
+  router.push({
+    pathname: '/map',
+    params: vehicleEventToParams(event)
+  });
+  return { count: event.trail.length };
+});
+
+/**
+ * Opens the dialer with a phone number, e.g. to call a driver
+ */
+registerBridgeHandler('callPhone', async ({ phone }) => {
+  await openContactLink(buildPhoneLink(requirePhone(phone)), 'phone');
+  return true;
+});
+
+/**
+ * Opens the SMS app with a message, or with a tracker command from config.bridge.smsCommands
+ * Commands marked as destructive are only sent after the user confirms them
+ * @returns false when the user cancels the command
+ */
+registerBridgeHandler('sendSms', async ({ phone, command, values, message }) => {
+  const number = requirePhone(phone);
+  let text = typeof message === 'string' ? message : '';
+
+  if (command) {
+    const smsCommand = getSmsCommand(String(command));
+    if (!smsCommand) {
+      throw new BridgeError('INVALID_PARAMS', `Unknown SMS command: ${command}`);
+    }
+
+    const { text: commandText, missing } = fillSmsTemplate(
+      smsCommand.template,
+      values && typeof values === 'object' ? values : {}
+    );
+    if (missing.length > 0) {
+      throw new BridgeError('INVALID_PARAMS', `Missing values for SMS command ${command}: ${missing.join(', ')}`);
+    }
+    text = commandText;
+
+    if (smsCommand.destructive) {
+      const confirmed = await confirmAction(
+        smsCommand.label,
+        `Enviar o comando "${smsCommand.label}" por SMS para ${number}?`,
+        'Enviar'
+      );
+      if (!confirmed) return false;
+    }
+  }
+
+  await openContactLink(buildSmsLink(number, text), 'SMS');
+  return true;
+});
+
+/**
+ * Opens the email composer with the recipients, subject and body filled in
+ */
+registerBridgeHandler('composeEmail', async ({ to, cc, subject, body }) => {
+  const recipients = requireEmailList(to, 'to');
+  if (recipients.length === 0) {
+    throw new BridgeError('INVALID_PARAMS', 'At least one recipient is required');
+  }
+
+  const url = buildEmailLink({
+    to: recipients,
+    cc: requireEmailList(cc, 'cc'),
+    subject: subject ? String(subject) : undefined,
+    body: body ? String(body) : undefined,
+  });
+
+  await openContactLink(url, 'email');
+  return true;
+});
+
+/**
+ * Shares a location with the alert fields through the native share sheet
+ */
+registerBridgeHandler('shareLocation', async params => {
+  const latitude = requireCoordinate(params.lat ?? params.latitude, 'latitude');
+  const longitude = requireCoordinate(params.lon ?? params.lng ?? params.longitude, 'longitude');
+
+  const { event } = parseVehicleEvent({ ...params, lat: latitude, lon: longitude });
+  if (!hasVehicleCoordinates(event)) {
+    throw new BridgeError('INVALID_PARAMS', `Invalid location: ${latitude}, ${longitude}`);
+  }
+
+  try {
+    return { shared: await shareVehicleEvent(event) };
+  } catch (error) {
+    throw new BridgeError('FAILED', `Failed to share location: ${error}`);
+  }
+});
+
+/**
+ * Returns the FCM token of the device, or null when notifications are not allowed
+ * Never prompts for permission
+ */
+registerBridgeHandler('getPushToken', async () => {
+  return { token: await getAllowedPushToken() };
+});
+
+/**
+ * Returns the notification permission status
+ */
+registerBridgeHandler('getNotificationPermission', async () => {
+  return { status: await getNotificationPermissionStatus() };
+});
+
+/**
+ * Returns the latest notifications received by the device, newest first
+ */
+registerBridgeHandler('getRecentNotifications', async ({ limit = 20 }) => {
+  const count = Number(limit);
+  if (!Number.isInteger(count) || count <= 0) {
+    throw new BridgeError('INVALID_PARAMS', `Invalid limit: ${limit}`);
+  }
+
+  const entries = await loadInbox();
+  return entries.slice(0, Math.min(count, MAX_RECENT_NOTIFICATIONS));
+});
+
+/**
+ * Replaces the notification filters managed by the portal
+ * Plates are normalized and alert types accept the same names as the push `category` field
+ */
+registerBridgeHandler('setNotificationFilters', async ({ mutedPlates, mutedCategories, quietHours }) => {
+  const plates = requireStringList(mutedPlates, 'mutedPlates').map(normalizePlate).filter(Boolean);
+
+  const categories = requireStringList(mutedCategories, 'mutedCategories').map(name => {
+    const category = parseAlertCategory({ category: name });
+    if (!category) {
+      throw new BridgeError('INVALID_PARAMS', `Unknown alert type: ${name}`);
+    }
+    return category;
+  });
+
+  await savePortalAlertFilters({
+    mutedPlates: Array.from(new Set(plates)),
+    mutedCategories: Array.from(new Set<AlertCategoryId>(categories)),
+    quietHours: requireQuietHours(quietHours),
+  });
+
+  return getNotificationFiltersState();
+});
+
+/**
+ * Returns the notification filters applied by the device, from the portal and the app settings
+ */
+registerBridgeHandler('getNotificationFilters', () => {
+  return getNotificationFiltersState();
+});
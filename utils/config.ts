@@ -3,8 +3,134 @@
  * Centralizes configuration values from various sources (rebrand-config.json, .env, etc.)
  */
 
+import { Platform } from 'react-native';
 import Constants from 'expo-constants';
 
+// Try to import the rebrand config (map providers)
+let rebrandConfig: any = {};
+try {
+  // Using require to load JSON at build time
+  rebrandConfig = require('../rebrand-config.json');
+} catch (error) {
+  console.warn('Failed to load rebrand-config.json:', error);
+}
+
+/**
+ * Map style variants a provider can offer
+ */
+export type MapStyleVariant = 'streets' | 'satellite' | 'hybrid';
+
+/**
+ * Map provider definition (rebrand-config.json `mapProviders`)
+ */
+export interface MapProviderConfig {
+  id: string;
+  name: string;
+  // Replaces `{key}` in the style and tile URLs
+  apiKey?: string;
+  attribution?: string;
+  // Vector style.json URLs per variant
+  styles?: Partial<Record<MapStyleVariant, string>>;
+  // Raster tile URL templates per variant, used when the provider has no style.json
+  rasterTiles?: Partial<Record<MapStyleVariant, string[]>>;
+  maxZoom?: number;
+}
+
+// Providers used when rebrand-config.json doesn't define any
+// MapTiler needs a key, from MAP_API_KEY in .env, and is skipped without one
+const defaultMapProviders: MapProviderConfig[] = [
+  {
+    id: 'maptiler',
+    name: 'MapTiler',
+    attribution: '© MapTiler © OpenStreetMap Contributors',
+    styles: {
+      streets: 'https://api.maptiler.com/maps/streets/style.json?key={key}',
+      satellite: 'https://api.maptiler.com/maps/satellite/style.json?key={key}',
+      hybrid: 'https://api.maptiler.com/maps/hybrid/style.json?key={key}',
+    },
+  },
+  {
+    id: 'osm',
+    name: 'OpenStreetMap',
+    attribution: '© OpenStreetMap Contributors',
+    rasterTiles: {
+      streets: [
+        'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+        'https://a.tile.openstreetmap.org/{z}/{x}/{y}.png',
+        'https://b.tile.openstreetmap.org/{z}/{x}/{y}.png',
+        'https://c.tile.openstreetmap.org/{z}/{x}/{y}.png',
+      ],
+    },
+    maxZoom: 19,
+  },
+];
+
+/**
+ * Reverse geocoding service (rebrand-config.json `geocoding`)
+ * Any endpoint answering the Nominatim `/reverse?format=jsonv2` API can be used
+ */
+export interface GeocodingConfig {
+  // Reverse endpoint, `{key}` is replaced with the API key; empty disables geocoding
+  url: string;
+  apiKey?: string;
+  // Language of the addresses (Accept-Language)
+  language?: string;
+  // Minimum time between two requests (ms), 1000 follows the public Nominatim policy
+  minInterval?: number;
+}
+
+// Public Nominatim server, used when rebrand-config.json doesn't define a service
+const defaultGeocoding: GeocodingConfig = {
+  url: 'https://nominatim.openstreetmap.org/reverse',
+  language: 'pt-BR',
+  minInterval: 1000,
+};
+
+/**
+ * Tracker events the app knows how to present
+ */
+export type TelemetryEventKind =
+  | 'panic'
+  | 'jamming'
+  | 'battery_cut'
+  | 'ignition_on'
+  | 'ignition_off'
+  | 'speeding'
+  | 'low_battery'
+  | 'geofence_exit';
+
+/**
+ * Raw codes sent by a tracker model in the `ign` and `evt` push fields
+ */
+export interface TelemetryCodesConfig {
+  // `ign` codes of each ignition state
+  ignition?: { on?: string[]; off?: string[] };
+  // `evt` codes, with their event kind or their own label
+  events?: Record<string, TelemetryEventKind | { kind?: TelemetryEventKind; label?: string }>;
+}
+
+/**
+ * Telemetry dictionary (rebrand-config.json `telemetry`)
+ */
+export interface TelemetryConfig extends TelemetryCodesConfig {
+  // Codes of specific tracker models, by the `modelo` push field, on top of the common ones
+  models?: Record<string, TelemetryCodesConfig>;
+}
+
+/**
+ * SMS command sent to a tracker (rebrand-config.json `smsCommands`)
+ */
+export interface SmsCommandConfig {
+  label: string;
+  // Text of the SMS, `{name}` placeholders are filled with the values sent by the portal
+  template: string;
+  // Asks the user to confirm before opening the SMS app, e.g. for blocking commands
+  destructive?: boolean;
+}
+
+// Actions the portal could call before the allowlist existed, allowed when rebrand-config.json has no `bridgeActions`
+const defaultBridgeActions = ['openWhatsApp', 'openSocial', 'openWaze'];
+
 /**
  * App configuration values
  */
@@ -13,6 +139,13 @@ const config = {
   appName: "MF Rastreamento",
   packageName: "com.wesodev1.mfrastreamento",
 
+  // Application id of the installed build (app.config.js ANDROID_PACKAGE / IOS_BUNDLE_ID)
+  get applicationId(): string {
+    const expoConfig = Constants.expoConfig;
+    const id = Platform.OS === 'ios' ? expoConfig?.ios?.bundleIdentifier : expoConfig?.android?.package;
+    return id || this.packageName;
+  },
+
   // WebView configuration
   webview: {
     // Base URL for the WebView - MUST be provided in rebrand-config.json or .env
@@ -35,6 +168,10 @@ const config = {
       return url;
     },
 
+    // Portal pages of an alert, e.g. /veiculo/{placa}/evento/{id}, tried in order
+    // The first one whose placeholders ({placa}, {id}, {evt}) are all in the alert is opened
+    eventPathTemplates: ([] as string[]).concat(rebrandConfig.portalEventPath || []),
+
     // Allowed domains for WebView navigation - derived from baseUrl
     get allowedDomains() {
       try {
@@ -63,6 +200,21 @@ const config = {
     },
   },
 
+  // Deep links: <scheme>://map?lat=..&lon=.. and https://<portal host>/app/map?lat=..&lon=..
+  linking: {
+    scheme: ([] as string[]).concat(Constants.expoConfig?.scheme || 'veiculorastreado')[0],
+    // Path prefix of the https app links on the portal domain
+    appLinkPrefix: '/app',
+  },
+
+  // WebView bridge
+  bridge: {
+    // Actions the portal may call (rebrand-config.json `bridgeActions`), the original ones when not set
+    allowedActions: (rebrandConfig.bridgeActions || defaultBridgeActions) as string[],
+    // Tracker SMS commands by name, sent with the sendSms action
+    smsCommands: (rebrandConfig.smsCommands || {}) as Record<string, SmsCommandConfig>,
+  },
+
   // Firebase configuration
   firebase: {
     projectId: "mf-rastreamento-9317b",
@@ -70,12 +222,32 @@ const config = {
     notificationChannelName: "Notificações Importantes",
   },
 
+  // Map configuration
+  map: {
+    // Providers in fallback order - the first one is the default
+    providers: (rebrandConfig.mapProviders || defaultMapProviders) as MapProviderConfig[],
+    // API key from MAP_API_KEY in .env, overrides the key of the provider it belongs to
+    apiKey: (Constants.expoConfig?.extra?.mapApiKey || process.env.MAP_API_KEY) as string | undefined,
+    // Id of the provider of MAP_API_KEY, from MAP_API_KEY_PROVIDER in .env
+    apiKeyProvider: (Constants.expoConfig?.extra?.mapApiKeyProvider || process.env.MAP_API_KEY_PROVIDER || 'maptiler') as string,
+  },
+
+  // Tracker codes of this brand, on top of the defaults in utils/telemetry
+  telemetry: (rebrandConfig.telemetry || {}) as TelemetryConfig,
+
+  // Address lookup for alerts sent without `end`
+  geocoding: { ...defaultGeocoding, ...rebrandConfig.geocoding } as GeocodingConfig,
+
   // Colors
   colors: {
     primary: "#00789B",
     secondary: "#2196F3",
     background: "#232323",
     text: "#FFFFFF",
+    // Toast severities, info toasts use the background color
+    success: "#2E7D32",
+    warning: "#E65100",
+    error: "#C62828",
   },
 };
 
@@ -0,0 +1,156 @@
+/**
+ * Contact links
+ * Builds the tel:, sms: and mailto: links opened for the portal, fills the tracker
+ * SMS command templates and parses the contact links clicked inside the WebView.
+ */
+
+import { Alert, Platform } from 'react-native';
+import config, { SmsCommandConfig } from './config';
+
+/**
+ * A contact link clicked in the portal, as the bridge action that handles it
+ */
+export type ContactLinkRequest =
+  | { action: 'callPhone'; params: { phone: string } }
+  | { action: 'sendSms'; params: { phone: string; message?: string } }
+  | { action: 'composeEmail'; params: { to: string[]; cc?: string[]; subject?: string; body?: string } };
+
+/**
+ * Normalize a phone number, keeping the digits and a leading +
+ * @param {string} phone The phone number as typed, e.g. "(11) 98765-4321"
+ * @returns {string | null} The number, or null when it has too few digits
+ */
+export function normalizePhone(phone: string): string | null {
+  const trimmed = phone.trim();
+  const digits = trimmed.replace(/\D/g, '');
+  if (digits.length < 3) return null;
+
+  return `${trimmed.startsWith('+') ? '+' : ''}${digits}`;
+}
+
+/**
+ * Check whether a text is a plausible email address
+ */
+export function isEmailAddress(value: string): boolean {
+  return /^[^\s@,;]+@[^\s@,;]+\.[^\s@,;]+$/.test(value.trim());
+}
+
+/**
+ * Build the link that opens the dialer
+ * @param {string} phone The normalized phone number
+ */
+export function buildPhoneLink(phone: string): string {
+  return `tel:${phone}`;
+}
+
+/**
+ * Build the link that opens the SMS app with a message
+ * @param {string} phone The normalized phone number
+ * @param {string} message The message text
+ */
+export function buildSmsLink(phone: string, message?: string): string {
+  if (!message) return `sms:${phone}`;
+
+  // iOS expects the body after `&`, Android after `?`
+  return `sms:${phone}${Platform.OS === 'ios' ? '&' : '?'}body=${encodeURIComponent(message)}`;
+}
+
+/**
+ * Build the link that opens the email composer
+ * @param {object} email The recipients, subject and body
+ */
+export function buildEmailLink({ to, cc = [], subject, body }: { to: string[]; cc?: string[]; subject?: string; body?: string }): string {
+  const query = [
+    cc.length > 0 ? `cc=${cc.map(encodeURIComponent).join(',')}` : null,
+    subject ? `subject=${encodeURIComponent(subject)}` : null,
+    body ? `body=${encodeURIComponent(body)}` : null,
+  ].filter(Boolean);
+
+  return `mailto:${to.map(encodeURIComponent).join(',')}${query.length > 0 ? `?${query.join('&')}` : ''}`;
+}
+
+/**
+ * Get a tracker SMS command of the brand
+ * @param {string} name The command name
+ * @returns {SmsCommandConfig | null} The command, or null when the brand has no such command
+ */
+export function getSmsCommand(name: string): SmsCommandConfig | null {
+  return Object.prototype.hasOwnProperty.call(config.bridge.smsCommands, name) ? config.bridge.smsCommands[name] : null;
+}
+
+/**
+ * Fill the placeholders of an SMS command template
+ * @param {string} template The template, e.g. "BLOQUEAR{senha}"
+ * @param {object} values The placeholder values
+ * @returns {{ text: string, missing: string[] }} The message, and the placeholders without value
+ */
+export function fillSmsTemplate(template: string, values: Record<string, unknown> = {}): { text: string; missing: string[] } {
+  const missing: string[] = [];
+
+  const text = template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = values[name];
+    if (value === undefined || value === null || value === '') {
+      missing.push(name);
+      return placeholder;
+    }
+    return String(value);
+  });
+
+  return { text, missing };
+}
+
+/**
+ * Ask the user to confirm an action
+ * @param {string} title The dialog title
+ * @param {string} message The dialog message
+ * @param {string} confirmText The confirm button text
+ * @returns {Promise<boolean>} Whether the user confirmed
+ */
+export function confirmAction(title: string, message: string, confirmText: string): Promise<boolean> {
+  return new Promise(resolve => {
+    Alert.alert(
+      title,
+      message,
+      [
+        { text: 'Cancelar', style: 'cancel', onPress: () => resolve(false) },
+        { text: confirmText, style: 'destructive', onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+}
+
+/**
+ * Parse a tel:, sms: or mailto: link clicked in the portal
+ * @param {string} url The link
+ * @returns {ContactLinkRequest | null} The bridge request that handles it, or null for other links
+ */
+export function parseContactLink(url: string): ContactLinkRequest | null {
+  const match = url.match(/^(tel|sms|smsto|mailto):([^?]*)(?:\?(.*))?$/i);
+  if (!match) return null;
+
+  const scheme = match[1].toLowerCase();
+  // iOS style sms links put the body after `&` in the path
+  const [path, ...pathQuery] = match[2].split('&');
+  const target = decodeURIComponent(path);
+  const query: Record<string, string> = {};
+  [...pathQuery, ...(match[3] || '').split('&')].forEach(pair => {
+    const [key, value = ''] = pair.split('=');
+    if (key) query[key.toLowerCase()] = decodeURIComponent(value.replace(/\+/g, ' '));
+  });
+
+  switch (scheme) {
+    case 'tel':
+      return { action: 'callPhone', params: { phone: target } };
+    case 'sms':
+    case 'smsto':
+      return { action: 'sendSms', params: { phone: target, message: query.body } };
+    default: {
+      const list = (value?: string) => (value || '').split(',').map(item => item.trim()).filter(Boolean);
+      return {
+        action: 'composeEmail',
+        params: { to: list(target), cc: list(query.cc), subject: query.subject, body: query.body },
+      };
+    }
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Deep links
+ * Maps links shared outside the app (custom scheme and https app links on the
+ * portal domain) to the map screen or to a portal page inside the WebView.
+ *
+ *   veiculorastreado://map?lat=-23.5&lon=-46.6&placa=ABC1D23
+ *   veiculorastreado://portal/relatorios?id=10
+ *   https://<portal host>/app/map?lat=-23.5&lon=-46.6
+ *   https://<portal host>/app/portal/relatorios?id=10
+ */
+
+import config from './config';
+import { isAllowedPortalHostname } from './portal';
+
+/**
+ * Where a deep link leads
+ */
+export type DeepLinkTarget =
+  | { type: 'map'; params: Record<string, string> }
+  | { type: 'portal'; path: string };
+
+/**
+ * Parse a deep link
+ * @param {string} url The link opened by the system
+ * @returns {DeepLinkTarget | null} The target, or null when the link is not handled
+ */
+export function parseDeepLink(url: string): DeepLinkTarget | null {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch (error) {
+    return null;
+  }
+
+  let segments: string[];
+  if (urlObj.protocol === `${config.linking.scheme}:`) {
+    // The first segment is parsed as the host of custom scheme links
+    segments = [urlObj.hostname, ...urlObj.pathname.split('/')];
+  } else if (urlObj.protocol === 'https:' && isAllowedPortalHostname(urlObj.hostname)) {
+    const prefix = config.linking.appLinkPrefix;
+    if (urlObj.pathname !== prefix && !urlObj.pathname.startsWith(`${prefix}/`)) return null;
+    segments = urlObj.pathname.slice(prefix.length).split('/');
+  } else {
+    return null;
+  }
+
+  const [target, ...rest] = segments.filter(Boolean);
+
+  if (target === 'map') {
+    const params: Record<string, string> = {};
+    urlObj.searchParams.forEach((value, key) => {
+      params[key] = value;
+    });
+    return { type: 'map', params };
+  }
+
+  if (target === 'portal') {
+    return { type: 'portal', path: `/${rest.join('/')}${urlObj.search}` };
+  }
+
+  return null;
+}
+
+/**
+ * Get the app route of a deep link
+ * @param {string} url The link opened by the system
+ * @returns {string | null} The route path, or null when the link is not handled
+ */
+export function getDeepLinkRoute(url: string): string | null {
+  const target = parseDeepLink(url);
+  if (!target) return null;
+
+  if (target.type === 'map') {
+    const query = Object.entries(target.params)
+      .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+      .join('&');
+    return query ? `/map?${query}` : '/map';
+  }
+
+  return `/?portalPath=${encodeURIComponent(target.path)}`;
+}
@@ -0,0 +1,146 @@
+/**
+ * Fleet map data
+ * Holds the list of vehicles shown by the map screen in fleet mode. The list is
+ * kept in memory instead of route params because it can contain hundreds of vehicles.
+ */
+
+import { parseVehicleEvent, hasVehicleCoordinates, VehicleEvent } from './vehicleEvent';
+import { InboxEntry } from './inbox';
+
+/**
+ * A vehicle with a known position
+ */
+export type FleetVehicle = VehicleEvent & { latitude: number; longitude: number };
+
+/**
+ * Bounds in the format expected by the MapLibre Camera
+ */
+export interface CoordinateBounds {
+  ne: [number, number];
+  sw: [number, number];
+}
+
+type FleetListener = (vehicles: FleetVehicle[]) => void;
+
+let currentFleet: FleetVehicle[] = [];
+const listeners = new Set<FleetListener>();
+
+/**
+ * Set the vehicles shown by the fleet map
+ * Vehicles without coordinates are discarded
+ * @param {VehicleEvent[]} vehicles The vehicles to show
+ * @returns {FleetVehicle[]} The vehicles that will be shown
+ */
+export function setFleet(vehicles: VehicleEvent[]): FleetVehicle[] {
+  currentFleet = vehicles.filter(hasVehicleCoordinates);
+  console.log(`Fleet: ${currentFleet.length} of ${vehicles.length} vehicles have coordinates`);
+  listeners.forEach(listener => listener(currentFleet));
+  return currentFleet;
+}
+
+/**
+ * Get the vehicles shown by the fleet map
+ */
+export function getFleet(): FleetVehicle[] {
+  return currentFleet;
+}
+
+/**
+ * Subscribe to fleet changes, e.g. when the portal shows another fleet while the map is open
+ * @param {Function} listener Called with the new vehicles
+ * @returns {Function} Unsubscribe function
+ */
+export function onFleetChange(listener: FleetListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Parse a list of raw vehicle payloads (e.g. posted by the web portal)
+ * Each item accepts the same fields as a notification payload (lat, lon, placa, ...)
+ * @param {unknown} items The raw list
+ * @returns {VehicleEvent[]} The parsed vehicles
+ */
+export function parseFleet(items: unknown): VehicleEvent[] {
+  if (!Array.isArray(items)) {
+    console.warn('Fleet: Expected a list of vehicles, received:', items);
+    return [];
+  }
+
+  return items
+    .filter(item => item && typeof item === 'object')
+    .map(item => {
+      const payload = item as Record<string, unknown>;
+      const placa = typeof payload.placa === 'string' ? payload.placa : undefined;
+      return parseVehicleEvent(payload, { title: placa }).event;
+    });
+}
+
+/**
+ * Build the fleet from the inbox, using the latest position of each plate
+ * @param {InboxEntry[]} entries Inbox entries, newest first
+ * @returns {VehicleEvent[]} One vehicle per plate
+ */
+export function getLatestVehiclesFromInbox(entries: InboxEntry[]): VehicleEvent[] {
+  const vehicles = new Map<string, VehicleEvent>();
+
+  entries.forEach(entry => {
+    if (!entry.placa || vehicles.has(entry.placa)) return;
+
+    const { event } = parseVehicleEvent(entry.params);
+    if (hasVehicleCoordinates(event)) {
+      vehicles.set(entry.placa, event);
+    }
+  });
+
+  return Array.from(vehicles.values());
+}
+
+/**
+ * Convert the fleet into a GeoJSON feature collection for a clustered ShapeSource
+ * The `index` property points back into the fleet list
+ */
+export function fleetToFeatureCollection(vehicles: FleetVehicle[]): GeoJSON.FeatureCollection<GeoJSON.Point> {
+  return {
+    type: 'FeatureCollection',
+    features: vehicles.map((vehicle, index) => ({
+      type: 'Feature',
+      id: `vehicle-${index}`,
+      properties: {
+        index,
+        placa: vehicle.placa || '',
+      },
+      geometry: {
+        type: 'Point',
+        coordinates: [vehicle.longitude, vehicle.latitude],
+      },
+    })),
+  };
+}
+
+/**
+ * Get the bounds that contain every position (fleet vehicles, trail points)
+ * @returns {CoordinateBounds | null} The bounds or null for an empty list
+ */
+export function getCoordinateBounds(vehicles: Array<{ latitude: number; longitude: number }>): CoordinateBounds | null {
+  if (vehicles.length === 0) return null;
+
+  let minLon = vehicles[0].longitude;
+  let maxLon = vehicles[0].longitude;
+  let minLat = vehicles[0].latitude;
+  let maxLat = vehicles[0].latitude;
+
+  vehicles.forEach(vehicle => {
+    minLon = Math.min(minLon, vehicle.longitude);
+    maxLon = Math.max(maxLon, vehicle.longitude);
+    minLat = Math.min(minLat, vehicle.latitude);
+    maxLat = Math.max(maxLat, vehicle.latitude);
+  });
+
+  return {
+    ne: [maxLon, maxLat],
+    sw: [minLon, minLat],
+  };
+}
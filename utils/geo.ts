@@ -0,0 +1,86 @@
+/**
+ * Geographic helpers
+ * Distance and bearing between two positions, for the map screen readouts and the geofences.
+ */
+
+const EARTH_RADIUS = 6371000;
+
+// Compass points, clockwise from north
+const COMPASS_POINTS = ['N', 'NE', 'L', 'SE', 'S', 'SO', 'O', 'NO'];
+
+/**
+ * A position in decimal degrees
+ */
+export interface GeoPosition {
+  latitude: number;
+  longitude: number;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Great-circle distance between two positions (haversine)
+ * @returns {number} Distance in meters
+ */
+export function getDistance(from: GeoPosition, to: GeoPosition): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Initial bearing from one position to another
+ * @returns {number} Bearing in degrees, 0 to 360 clockwise from north
+ */
+export function getBearing(from: GeoPosition, to: GeoPosition): number {
+  const lat1 = toRadians(from.latitude);
+  const lat2 = toRadians(to.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+}
+
+/**
+ * Position reached from an origin after a distance on a bearing
+ * @param {GeoPosition} from The origin
+ * @param {number} distance Distance in meters
+ * @param {number} bearing Bearing in degrees clockwise from north
+ * @returns {GeoPosition} The destination
+ */
+export function getDestination(from: GeoPosition, distance: number, bearing: number): GeoPosition {
+  const angle = distance / EARTH_RADIUS;
+  const theta = toRadians(bearing);
+  const lat1 = toRadians(from.latitude);
+  const lon1 = toRadians(from.longitude);
+
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angle) + Math.cos(lat1) * Math.sin(angle) * Math.cos(theta));
+  const lon2 = lon1 + Math.atan2(
+    Math.sin(theta) * Math.sin(angle) * Math.cos(lat1),
+    Math.cos(angle) - Math.sin(lat1) * Math.sin(lat2)
+  );
+
+  return { latitude: toDegrees(lat2), longitude: ((toDegrees(lon2) + 540) % 360) - 180 };
+}
+
+/**
+ * Compass point of a bearing (N, NE, L, ...)
+ */
+export function getCompassPoint(bearing: number): string {
+  return COMPASS_POINTS[Math.round(bearing / 45) % COMPASS_POINTS.length];
+}
+
+/**
+ * Format a distance for display, in meters below 1 km
+ */
+export function formatDistance(meters: number): string {
+  if (meters < 1000) return `${Math.round(meters)} m`;
+  return `${(meters / 1000).toFixed(meters < 10000 ? 1 : 0).replace('.', ',')} km`;
+}
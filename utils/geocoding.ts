@@ -0,0 +1,225 @@
+/**
+ * Reverse geocoding
+ * Looks up the address of alerts sent without `end` on the service in config.geocoding.
+ * Addresses are cached on the device by rounded coordinates, and requests are spaced
+ * by the service minimum interval so a burst of alerts does not flood the provider.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import config from './config';
+import { GeoPosition } from './geo';
+
+const STORAGE_KEY = '@geocoding/cache';
+
+// Coordinates are rounded to 4 decimals (about 11 m) to share cached addresses
+const COORDINATE_PRECISION = 4;
+
+// Oldest cached addresses are dropped once the cache grows past this size
+const MAX_CACHE_ENTRIES = 1000;
+
+// Lookups waiting for their turn beyond this count are skipped
+const MAX_QUEUED_REQUESTS = 20;
+
+const REQUEST_TIMEOUT = 10000;
+
+/**
+ * A cached lookup, `address` is null when the service has no address for the position
+ */
+interface CachedAddress {
+  address: string | null;
+  cachedAt: number;
+}
+
+/**
+ * The fields of a Nominatim `jsonv2` reverse response used to build the address
+ */
+interface ReverseGeocodingResult {
+  display_name?: string;
+  address?: Record<string, string | undefined>;
+  error?: string;
+}
+
+let cachedAddresses: Record<string, CachedAddress> | null = null;
+
+// Lookups in progress by cache key, so the same position is only requested once
+const pendingLookups = new Map<string, Promise<string | null>>();
+
+// Spaces the requests by the service minimum interval
+let requestQueue: Promise<unknown> = Promise.resolve();
+let queuedRequests = 0;
+let lastRequestAt = 0;
+
+/**
+ * Check whether a geocoding service is configured
+ * @returns {boolean} Whether addresses can be looked up
+ */
+export function isGeocodingEnabled(): boolean {
+  return !!config.geocoding.url;
+}
+
+/**
+ * Cache key of a position
+ */
+function getCacheKey(position: GeoPosition): string {
+  return `${position.latitude.toFixed(COORDINATE_PRECISION)},${position.longitude.toFixed(COORDINATE_PRECISION)}`;
+}
+
+/**
+ * Load the cached addresses
+ */
+async function loadCache(): Promise<Record<string, CachedAddress>> {
+  if (cachedAddresses) return cachedAddresses;
+
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    cachedAddresses = stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Geocoding: Failed to load cache:', error);
+    cachedAddresses = {};
+  }
+
+  return cachedAddresses!;
+}
+
+/**
+ * Add an address to the cache, dropping the oldest ones when it is full
+ */
+async function storeAddress(key: string, address: string | null): Promise<void> {
+  const cache = { ...(await loadCache()), [key]: { address, cachedAt: Date.now() } };
+
+  const keys = Object.keys(cache);
+  if (keys.length > MAX_CACHE_ENTRIES) {
+    keys
+      .sort((a, b) => cache[a].cachedAt - cache[b].cachedAt)
+      .slice(0, keys.length - MAX_CACHE_ENTRIES)
+      .forEach(oldKey => delete cache[oldKey]);
+  }
+
+  cachedAddresses = cache;
+
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(cache));
+  } catch (error) {
+    console.error('Geocoding: Failed to save cache:', error);
+  }
+}
+
+/**
+ * Format a reverse geocoding result as a Brazilian address
+ * @param {ReverseGeocodingResult} result The service response
+ * @returns {string | null} e.g. "Rua Augusta, 1500 - Consolação, São Paulo - SP", or null when empty
+ */
+export function formatGeocodedAddress(result: ReverseGeocodingResult): string | null {
+  const address = result.address || {};
+
+  const street = [address.road || address.pedestrian || address.highway, address.house_number]
+    .filter(Boolean)
+    .join(', ');
+  const locality = [
+    address.suburb || address.neighbourhood || address.quarter,
+    address.city || address.town || address.village || address.municipality,
+  ]
+    .filter(Boolean)
+    .join(', ');
+  // "BR-SP" gives the state abbreviation used in Brazilian addresses
+  const stateCode = address['ISO3166-2-lvl4']?.split('-')[1];
+  const region = stateCode || address.state;
+
+  const formatted = [street, locality, region].filter(Boolean).join(' - ');
+  return formatted || result.display_name || null;
+}
+
+/**
+ * Request the address of a position from the service
+ */
+async function requestAddress(position: GeoPosition): Promise<string | null> {
+  const { url, apiKey, language } = config.geocoding;
+  const query = `format=jsonv2&addressdetails=1&lat=${position.latitude}&lon=${position.longitude}`;
+  const requestUrl = `${url.replace('{key}', apiKey || '')}${url.includes('?') ? '&' : '?'}${query}`;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+  try {
+    const response = await fetch(requestUrl, {
+      headers: {
+        // Nominatim requires an identifying user agent
+        'User-Agent': `${config.appName} (${config.applicationId})`,
+        ...(language ? { 'Accept-Language': language } : {}),
+      },
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const result: ReverseGeocodingResult = await response.json();
+    return result.error ? null : formatGeocodedAddress(result);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Wait for the turn of a request, respecting the service minimum interval
+ */
+function scheduleRequest<T>(request: () => Promise<T>): Promise<T> {
+  queuedRequests++;
+
+  const result = requestQueue.then(async () => {
+    const wait = lastRequestAt + (config.geocoding.minInterval || 0) - Date.now();
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+
+    lastRequestAt = Date.now();
+    try {
+      return await request();
+    } finally {
+      queuedRequests--;
+    }
+  });
+
+  requestQueue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Get the address of a position
+ * Cached addresses are returned right away, new ones wait for their turn in the request queue
+ * @param {GeoPosition} position The position
+ * @returns {Promise<string | null>} The address, or null when unknown, offline or the queue is full
+ */
+export async function reverseGeocode(position: GeoPosition): Promise<string | null> {
+  if (!isGeocodingEnabled()) return null;
+
+  const key = getCacheKey(position);
+  const cached = (await loadCache())[key];
+  if (cached) return cached.address;
+
+  const pending = pendingLookups.get(key);
+  if (pending) return pending;
+
+  if (queuedRequests >= MAX_QUEUED_REQUESTS) {
+    console.log('Geocoding: Request queue full, skipping lookup:', key);
+    return null;
+  }
+
+  const lookup = scheduleRequest(() => requestAddress(position))
+    .then(async address => {
+      await storeAddress(key, address);
+      return address;
+    })
+    .catch(error => {
+      // Failures are not cached, the position is looked up again next time
+      console.warn('Geocoding: Failed to look up address:', key, error);
+      return null;
+    })
+    .finally(() => {
+      pendingLookups.delete(key);
+    });
+
+  pendingLookups.set(key, lookup);
+  return lookup;
+}
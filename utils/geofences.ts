@@ -0,0 +1,291 @@
+/**
+ * Geofences
+ * Areas drawn by the user on the map (home, depot, customer sites), stored on the device.
+ * The positions received in pushes are checked against them, so a push can be shown as
+ * "ABC1D23 saiu de Depósito Norte" without any location tracking on the device.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getDestination, getDistance, GeoPosition } from './geo';
+import { normalizePlate } from './alertPreferences';
+import { hasVehicleCoordinates, VehicleEvent } from './vehicleEvent';
+
+const STORAGE_KEY = '@geofences/fences';
+const VEHICLE_STATE_STORAGE_KEY = '@geofences/vehicleState';
+
+// Number of sides of the polygon drawn for a circle
+const CIRCLE_STEPS = 64;
+
+// Radii offered by the editor, in meters
+export const GEOFENCE_RADII = [100, 200, 300, 500, 1000, 2000, 5000];
+
+export type GeofenceType = 'circle' | 'polygon';
+
+/**
+ * A stored geofence
+ * Circles have their center as the only point
+ */
+export interface Geofence {
+  id: string;
+  name: string;
+  type: GeofenceType;
+  points: GeoPosition[];
+  // Radius of circles, in meters
+  radius: number;
+  updatedAt: number;
+}
+
+/**
+ * A geofence being drawn, without id when it is new
+ */
+export type GeofenceDraft = Omit<Geofence, 'id' | 'updatedAt'> & { id?: string };
+
+/**
+ * Geofences a vehicle left or entered since its previous position
+ */
+export interface GeofenceTransitions {
+  exited: Geofence[];
+  entered: Geofence[];
+}
+
+type GeofencesListener = (fences: Geofence[]) => void;
+
+// Ids of the geofences each vehicle was inside at its last known position, by normalized plate
+type VehicleGeofenceState = Record<string, string[]>;
+
+let cachedFences: Geofence[] | null = null;
+const listeners = new Set<GeofencesListener>();
+
+// Serializes the vehicle state updates so concurrent pushes do not overwrite each other
+let stateQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Load the stored geofences
+ * @returns {Promise<Geofence[]>} The geofences, in creation order
+ */
+export async function loadGeofences(): Promise<Geofence[]> {
+  if (cachedFences) return cachedFences;
+
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    cachedFences = stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Geofences: Failed to load geofences:', error);
+    cachedFences = [];
+  }
+
+  return cachedFences!;
+}
+
+/**
+ * Store the geofences and notify listeners
+ */
+async function storeGeofences(fences: Geofence[]): Promise<void> {
+  cachedFences = fences;
+
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(fences));
+  } catch (error) {
+    console.error('Geofences: Failed to save geofences:', error);
+  }
+
+  listeners.forEach(listener => listener(fences));
+}
+
+/**
+ * Check whether a draft can be saved
+ * @param {GeofenceDraft} draft The draft
+ * @returns {boolean} Whether it has a name and a complete shape
+ */
+export function isGeofenceDraftValid(draft: GeofenceDraft): boolean {
+  if (!draft.name.trim()) return false;
+  return draft.type === 'circle' ? draft.points.length === 1 && draft.radius > 0 : draft.points.length >= 3;
+}
+
+/**
+ * Add a position tapped on the map to a draft
+ * Circles move their center, polygons get a new vertex
+ * @param {GeofenceDraft} draft The draft
+ * @param {GeoPosition} position The tapped position
+ * @returns {GeofenceDraft} The updated draft
+ */
+export function addGeofenceDraftPoint(draft: GeofenceDraft, position: GeoPosition): GeofenceDraft {
+  return {
+    ...draft,
+    points: draft.type === 'circle' ? [position] : [...draft.points, position],
+  };
+}
+
+/**
+ * Create or update a geofence
+ * @param {GeofenceDraft} draft The geofence, with the id of the edited geofence when updating
+ * @returns {Promise<Geofence>} The stored geofence
+ */
+export async function saveGeofence(draft: GeofenceDraft): Promise<Geofence> {
+  const fence: Geofence = {
+    ...draft,
+    id: draft.id || `fence-${Date.now().toString(36)}`,
+    name: draft.name.trim(),
+    updatedAt: Date.now(),
+  };
+
+  const fences = await loadGeofences();
+  const exists = fences.some(item => item.id === fence.id);
+  await storeGeofences(exists ? fences.map(item => (item.id === fence.id ? fence : item)) : [...fences, fence]);
+
+  return fence;
+}
+
+/**
+ * Delete a geofence
+ * @param {string} id The geofence id
+ */
+export async function deleteGeofence(id: string): Promise<void> {
+  const fences = await loadGeofences();
+  await storeGeofences(fences.filter(fence => fence.id !== id));
+}
+
+/**
+ * Register a callback for geofence changes
+ * @param {Function} listener Function to call with the updated geofences
+ * @returns {Function} Unsubscribe function
+ */
+export function onGeofencesChange(listener: GeofencesListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Outline of a geofence, circles approximated by a polygon
+ * @param {GeofenceDraft} fence The geofence
+ * @returns {GeoPosition[]} The outline points, without repeating the first one
+ */
+export function getGeofenceOutline(fence: GeofenceDraft): GeoPosition[] {
+  if (fence.type === 'polygon') return fence.points;
+  if (fence.points.length === 0) return [];
+
+  const center = fence.points[0];
+  return Array.from({ length: CIRCLE_STEPS }, (_, step) =>
+    getDestination(center, fence.radius, (step * 360) / CIRCLE_STEPS)
+  );
+}
+
+/**
+ * Check whether a position is inside a geofence
+ * @param {Geofence} fence The geofence
+ * @param {GeoPosition} position The position
+ * @returns {boolean} Whether it is inside
+ */
+export function isInsideGeofence(fence: Geofence, position: GeoPosition): boolean {
+  if (fence.type === 'circle') {
+    return fence.points.length === 1 && getDistance(fence.points[0], position) <= fence.radius;
+  }
+
+  // Ray casting, accurate enough for the size of a geofence
+  let inside = false;
+  const points = fence.points;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if (
+      a.latitude > position.latitude !== b.latitude > position.latitude &&
+      position.longitude <
+        ((b.longitude - a.longitude) * (position.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Build the map shapes of the geofences
+ * @param {GeofenceDraft[]} fences The geofences
+ * @returns {GeoJSON.FeatureCollection} One polygon per geofence, with its name and id
+ */
+export function geofencesToFeatureCollection(
+  fences: GeofenceDraft[]
+): GeoJSON.FeatureCollection<GeoJSON.Polygon> {
+  return {
+    type: 'FeatureCollection',
+    features: fences
+      .map(fence => ({ fence, outline: getGeofenceOutline(fence) }))
+      .filter(({ outline }) => outline.length >= 3)
+      .map(({ fence, outline }) => {
+        const ring = outline.map(point => [point.longitude, point.latitude]);
+        return {
+          type: 'Feature',
+          id: fence.id,
+          properties: { id: fence.id || '', name: fence.name },
+          geometry: { type: 'Polygon', coordinates: [[...ring, ring[0]]] },
+        };
+      }),
+  };
+}
+
+/**
+ * Check a vehicle position against the geofences and remember it
+ * The first position of a vehicle only records where it is, without transitions
+ * @param {string} placa The vehicle plate
+ * @param {GeoPosition} position The vehicle position
+ * @returns {Promise<GeofenceTransitions>} The geofences left and entered since the previous position
+ */
+export function evaluateGeofences(placa: string, position: GeoPosition): Promise<GeofenceTransitions> {
+  const result = stateQueue.then(async () => {
+    const fences = await loadGeofences();
+    if (fences.length === 0) return { exited: [], entered: [] };
+
+    let state: VehicleGeofenceState = {};
+    try {
+      const stored = await AsyncStorage.getItem(VEHICLE_STATE_STORAGE_KEY);
+      state = stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Geofences: Failed to load vehicle state:', error);
+    }
+
+    const plate = normalizePlate(placa);
+    const previous = state[plate];
+    const inside = fences.filter(fence => isInsideGeofence(fence, position));
+    const insideIds = inside.map(fence => fence.id);
+
+    state[plate] = insideIds;
+    try {
+      await AsyncStorage.setItem(VEHICLE_STATE_STORAGE_KEY, JSON.stringify(state));
+    } catch (error) {
+      console.error('Geofences: Failed to save vehicle state:', error);
+    }
+
+    if (!previous) return { exited: [], entered: [] };
+
+    return {
+      exited: fences.filter(fence => previous.includes(fence.id) && !insideIds.includes(fence.id)),
+      entered: inside.filter(fence => !previous.includes(fence.id)),
+    };
+  });
+
+  stateQueue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Get the notification title of a push whose vehicle left a geofence
+ * @param {VehicleEvent} event The parsed vehicle event
+ * @returns {Promise<string | null>} e.g. "ABC1D23 saiu de Depósito Norte", or null when no geofence was left
+ */
+export async function getGeofenceExitTitle(event: VehicleEvent): Promise<string | null> {
+  if (!event.placa || !hasVehicleCoordinates(event)) return null;
+
+  try {
+    const { exited } = await evaluateGeofences(event.placa, event);
+    if (exited.length === 0) return null;
+
+    const names = exited.map(fence => fence.name);
+    const list = names.length > 1 ? `${names.slice(0, -1).join(', ')} e ${names[names.length - 1]}` : names[0];
+    return `${normalizePlate(event.placa)} saiu de ${list}`;
+  } catch (error) {
+    console.error('Geofences: Failed to evaluate position:', error);
+    return null;
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Notification inbox
+ * Keeps every received alert on the device so it can be reviewed after the
+ * push itself has been dismissed.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { FirebaseMessagingTypes } from '@react-native-firebase/messaging';
+import { reverseGeocode } from './geocoding';
+import { parseVehicleEvent, vehicleEventToParams, hasVehicleCoordinates, VehicleEvent } from './vehicleEvent';
+
+const STORAGE_KEY = '@inbox/entries';
+
+// Oldest entries are dropped once the inbox grows past this size
+const MAX_ENTRIES = 500;
+
+// Only the newest entries keep their route trail, which can take a few KB each;
+// the whole inbox is one AsyncStorage value, limited to about 2 MB on Android
+const MAX_TRAIL_ENTRIES = 50;
+
+/**
+ * A received alert stored in the inbox
+ */
+export interface InboxEntry {
+  id: string;
+  title: string;
+  body: string;
+  // Map route params, parse them with parseVehicleEvent to get the vehicle fields
+  params: Record<string, string>;
+  placa?: string;
+  receivedAt: number;
+  read: boolean;
+}
+
+type InboxListener = (entries: InboxEntry[]) => void;
+
+let cachedEntries: InboxEntry[] | null = null;
+const listeners = new Set<InboxListener>();
+
+// Serializes writes so concurrent pushes do not overwrite each other
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Load all inbox entries, newest first
+ * @returns {Promise<InboxEntry[]>} The stored entries
+ */
+export async function loadInbox(): Promise<InboxEntry[]> {
+  if (cachedEntries) return cachedEntries;
+
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    cachedEntries = stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Inbox: Failed to load entries:', error);
+    cachedEntries = [];
+  }
+
+  return cachedEntries!;
+}
+
+/**
+ * Drop the route trail of the older entries
+ */
+function compactEntries(entries: InboxEntry[]): InboxEntry[] {
+  return entries.map((entry, index) => {
+    if (index < MAX_TRAIL_ENTRIES || entry.params.trail === undefined) return entry;
+
+    const { trail, ...params } = entry.params;
+    return { ...entry, params };
+  });
+}
+
+/**
+ * Apply a change to the stored entries and notify listeners
+ * A failing change is logged and leaves the entries untouched
+ */
+function updateInbox(change: (entries: InboxEntry[]) => InboxEntry[]): Promise<void> {
+  writeQueue = writeQueue.then(async () => {
+    let entries: InboxEntry[];
+    try {
+      entries = compactEntries(change(await loadInbox()));
+    } catch (error) {
+      console.error('Inbox: Failed to update entries:', error);
+      return;
+    }
+    cachedEntries = entries;
+
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    } catch (error) {
+      console.error('Inbox: Failed to save entries:', error);
+    }
+
+    listeners.forEach(listener => listener(entries));
+  });
+
+  return writeQueue;
+}
+
+/**
+ * Build the inbox entry of a received notification
+ * @param {RemoteMessage} message The FCM message
+ * @param {boolean} read Whether the entry is already read
+ * @returns {{ entry: InboxEntry, event: VehicleEvent }} The entry and its parsed vehicle event
+ */
+export function createInboxEntry(
+  message: FirebaseMessagingTypes.RemoteMessage,
+  read: boolean = false
+): { entry: InboxEntry; event: VehicleEvent } {
+  const { event } = parseVehicleEvent(message.data, {
+    title: message.notification?.title,
+    body: message.notification?.body,
+  });
+
+  const entry: InboxEntry = {
+    id: message.messageId || `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    title: message.notification?.title || event.title,
+    body: message.notification?.body || event.message,
+    params: vehicleEventToParams(event),
+    placa: event.placa,
+    receivedAt: message.sentTime || Date.now(),
+    read,
+  };
+
+  return { entry, event };
+}
+
+/**
+ * Look up the address of an entry stored without `end` and add it to the entry
+ */
+async function fillInboxEntryAddress(id: string, event: VehicleEvent): Promise<void> {
+  if (event.endereco || !hasVehicleCoordinates(event)) return;
+
+  const endereco = await reverseGeocode(event);
+  if (!endereco) return;
+
+  await updateInbox(entries =>
+    entries.map(entry =>
+      entry.id === id && !entry.params.end ? { ...entry, params: { ...entry.params, end: endereco } } : entry
+    )
+  );
+}
+
+/**
+ * Store a received notification in the inbox
+ * Notifications already stored (same FCM message id) are ignored, so the same push
+ * can be recorded from onMessage and onNotificationOpenedApp safely.
+ * New entries without address get one from reverse geocoding in the background.
+ * @param {RemoteMessage} message The FCM message
+ * @param {boolean} read Whether the entry should be stored as already read
+ * @returns {Promise<VehicleEvent>} The parsed vehicle event
+ */
+export async function recordNotification(
+  message: FirebaseMessagingTypes.RemoteMessage,
+  read: boolean = false
+): Promise<VehicleEvent> {
+  const { entry, event } = createInboxEntry(message, read);
+  let added = false;
+
+  await updateInbox(entries => {
+    const existing = entries.find(item => item.id === entry.id);
+    if (existing) {
+      return read && !existing.read
+        ? entries.map(item => (item.id === entry.id ? { ...item, read: true } : item))
+        : entries;
+    }
+    added = true;
+    return [entry, ...entries].slice(0, MAX_ENTRIES);
+  });
+
+  if (added) {
+    fillInboxEntryAddress(entry.id, event);
+  }
+
+  return event;
+}
+
+/**
+ * Mark an entry as read
+ * @param {string} id The entry id
+ */
+export function markInboxEntryRead(id: string): Promise<void> {
+  return updateInbox(entries =>
+    entries.map(entry => (entry.id === id ? { ...entry, read: true } : entry))
+  );
+}
+
+/**
+ * Mark every entry as read
+ */
+export function markAllInboxEntriesRead(): Promise<void> {
+  return updateInbox(entries => entries.map(entry => ({ ...entry, read: true })));
+}
+
+/**
+ * Remove every entry from the inbox
+ */
+export function clearInbox(): Promise<void> {
+  return updateInbox(() => []);
+}
+
+/**
+ * Register a callback for inbox changes
+ * @param {Function} listener Function to call with the updated entries
+ * @returns {Function} Unsubscribe function
+ */
+export function onInboxChange(listener: InboxListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
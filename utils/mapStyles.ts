@@ -0,0 +1,173 @@
+/**
+ * Map style registry
+ * Builds the MapLibre styles from the providers in config.map, in fallback order,
+ * and remembers the style chosen by the user on this device.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import config, { MapProviderConfig, MapStyleVariant } from './config';
+
+const STORAGE_KEY = '@map/style';
+
+// Fonts for the plate labels drawn over raster styles, which have no glyphs of their own
+const RASTER_GLYPHS_URL = 'https://demotiles.maplibre.org/font/{fontstack}/{range}.pbf';
+
+/**
+ * Display names of the style variants
+ */
+export const MAP_VARIANT_LABELS: Record<MapStyleVariant, string> = {
+  streets: 'Ruas',
+  satellite: 'Satélite',
+  hybrid: 'Híbrido',
+};
+
+/**
+ * A style that can be rendered by the MapView
+ */
+export interface MapStyleOption {
+  // Unique id, `<provider>:<variant>`
+  id: string;
+  providerId: string;
+  providerName: string;
+  variant: MapStyleVariant;
+  attribution: string;
+  // style.json URL or inline style object
+  style: string | object;
+}
+
+/**
+ * Get the API key of a provider, MAP_API_KEY only applies to the provider it belongs to
+ */
+function getProviderApiKey(provider: MapProviderConfig): string {
+  const envKey = provider.id === config.map.apiKeyProvider ? config.map.apiKey : undefined;
+  return envKey || provider.apiKey || '';
+}
+
+/**
+ * Replace the `{key}` placeholder with the provider API key
+ */
+function withApiKey(url: string, provider: MapProviderConfig): string {
+  return url.replace('{key}', getProviderApiKey(provider));
+}
+
+/**
+ * Build an inline raster style
+ */
+function buildRasterStyle(provider: MapProviderConfig, variant: MapStyleVariant, tiles: string[]): object {
+  const sourceId = `${provider.id}-${variant}`;
+
+  return {
+    version: 8,
+    name: `${provider.name} ${MAP_VARIANT_LABELS[variant]}`,
+    glyphs: RASTER_GLYPHS_URL,
+    sources: {
+      [sourceId]: {
+        type: 'raster',
+        tiles: tiles.map(tile => withApiKey(tile, provider)),
+        tileSize: 256,
+        attribution: provider.attribution || '',
+        maxzoom: provider.maxZoom || 19,
+      },
+    },
+    layers: [
+      {
+        id: sourceId,
+        type: 'raster',
+        source: sourceId,
+        minzoom: 0,
+        maxzoom: 22,
+      },
+    ],
+  };
+}
+
+/**
+ * Get every available style, in provider fallback order
+ * @returns {MapStyleOption[]} The style options
+ */
+export function getMapStyleOptions(): MapStyleOption[] {
+  const options: MapStyleOption[] = [];
+
+  config.map.providers.forEach(provider => {
+    (Object.keys(MAP_VARIANT_LABELS) as MapStyleVariant[]).forEach(variant => {
+      const styleUrl = provider.styles?.[variant];
+      const rasterTiles = provider.rasterTiles?.[variant];
+
+      // Styles that need a key can't load without one
+      const urls = [styleUrl, ...(rasterTiles || [])];
+      if (!getProviderApiKey(provider) && urls.some(url => url?.includes('{key}'))) return;
+
+      let style: string | object | null = null;
+      if (styleUrl) {
+        style = withApiKey(styleUrl, provider);
+      } else if (rasterTiles && rasterTiles.length > 0) {
+        style = buildRasterStyle(provider, variant, rasterTiles);
+      }
+
+      if (style) {
+        options.push({
+          id: `${provider.id}:${variant}`,
+          providerId: provider.id,
+          providerName: provider.name,
+          variant,
+          attribution: provider.attribution || '',
+          style,
+        });
+      }
+    });
+  });
+
+  return options;
+}
+
+/**
+ * Get the styles to try in order, starting with the preferred one
+ * Styles of the same variant come first, then the remaining ones in provider order
+ * @param {string | null} preferredId Id of the style chosen by the user
+ * @returns {MapStyleOption[]} The fallback chain
+ */
+export function getMapStyleChain(preferredId?: string | null): MapStyleOption[] {
+  const options = getMapStyleOptions();
+  const preferred = options.find(option => option.id === preferredId) || options[0];
+  if (!preferred) return [];
+
+  const sameVariant = options.filter(option => option !== preferred && option.variant === preferred.variant);
+  const others = options.filter(option => option !== preferred && option.variant !== preferred.variant);
+
+  return [preferred, ...sameVariant, ...others];
+}
+
+/**
+ * Get the first style served by a style.json URL
+ * Offline packs can only be created from a style URL
+ * @returns {string | null} The style URL
+ */
+export function getOfflineStyleUrl(): string | null {
+  const option = getMapStyleOptions().find(item => typeof item.style === 'string');
+  return option ? (option.style as string) : null;
+}
+
+/**
+ * Load the style chosen by the user on this device
+ * @returns {Promise<string | null>} The style id
+ */
+export async function loadPreferredMapStyle(): Promise<string | null> {
+  try {
+    return await AsyncStorage.getItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('MapStyles: Failed to load preferred style:', error);
+    return null;
+  }
+}
+
+/**
+ * Remember the style chosen by the user
+ * @param {string} id The style id
+ */
+export async function savePreferredMapStyle(id: string): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, id);
+  } catch (error) {
+    console.error('MapStyles: Failed to save preferred style:', error);
+  }
+}
@@ -4,6 +4,7 @@ import { getApp } from '@react-native-firebase/app';
 import { Platform, PermissionsAndroid, ToastAndroid } from 'react-native';
 import Constants from 'expo-constants';
 import { showNotificationPermissionToast } from './toast';
+import { createNotificationChannels } from './notificationChannels';
 
 /**
  * Check if the device is running Android 13 (API level 33) or higher
@@ -40,15 +41,13 @@ function isAndroid13OrHigher(): boolean {
 }
 
 /**
- * Create a notification channel for Android
- * This is required for Android 8.0 (API level 26) and higher
- *
- * Note: The actual channel creation is handled by the native module
- * when the app initializes with the configuration from firebase.json
+ * Create the notification channels for Android
+ * This is required for Android 8.0 (API level 26) and higher.
+ * Each alert category has its own channel, see utils/notificationChannels.ts
  */
 export async function createNotificationChannel(): Promise<void> {
   if (Platform.OS === 'android') {
-    console.log('Notification channel configured via firebase.json');
+    await createNotificationChannels();
   }
 }
 
@@ -111,6 +110,45 @@ export async function requestNotificationPermission(showToastOnDenied: boolean =
   }
 }
 
+/**
+ * Notification permission state, as reported to the web portal
+ */
+export type NotificationPermissionStatus = 'granted' | 'provisional' | 'denied' | 'not-determined';
+
+/**
+ * Get the notification permission status without prompting the user
+ * Android can't tell a denied permission from one never requested, both are reported as denied
+ * @returns {Promise<NotificationPermissionStatus>} The permission status
+ */
+export async function getNotificationPermissionStatus(): Promise<NotificationPermissionStatus> {
+  try {
+    if (Platform.OS === 'ios') {
+      const authStatus = await getMessaging(getApp()).hasPermission();
+      switch (authStatus) {
+        case FirebaseMessagingTypes.AuthorizationStatus.AUTHORIZED:
+        case FirebaseMessagingTypes.AuthorizationStatus.EPHEMERAL:
+          return 'granted';
+        case FirebaseMessagingTypes.AuthorizationStatus.PROVISIONAL:
+          return 'provisional';
+        case FirebaseMessagingTypes.AuthorizationStatus.NOT_DETERMINED:
+          return 'not-determined';
+        default:
+          return 'denied';
+      }
+    }
+
+    if (Platform.OS === 'android' && isAndroid13OrHigher()) {
+      const granted = await PermissionsAndroid.check(PermissionsAndroid.PERMISSIONS.POST_NOTIFICATIONS);
+      return granted ? 'granted' : 'denied';
+    }
+
+    return 'granted';
+  } catch (error) {
+    console.error('Failed to check notification permission:', error);
+    return 'denied';
+  }
+}
+
 /**
  * Get the FCM token for this device
  * @param {boolean} forcePermissionRequest Whether to force a permission request if not already granted
@@ -0,0 +1,241 @@
+/**
+ * Navigation hand-off
+ * Opens a vehicle position in an external navigation or ride app,
+ * letting the user pick the app and remember it as the default.
+ */
+
+import { Linking, Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const STORAGE_KEY = '@navigation/defaultApp';
+
+/**
+ * Supported navigation apps
+ */
+export type NavigationAppId = 'waze' | 'google' | 'apple' | 'uber' | '99';
+
+/**
+ * A position to navigate to
+ */
+export interface NavigationDestination {
+  latitude: number;
+  longitude: number;
+  label?: string;
+}
+
+/**
+ * A navigation app and how to open it
+ */
+export interface NavigationApp {
+  id: NavigationAppId;
+  name: string;
+  // URL checked with canOpenURL to detect the app, null when it is always available
+  detectUrl: string | null;
+  buildUrl: (destination: NavigationDestination) => string;
+  // Web fallback when the app is not installed
+  buildWebUrl?: (destination: NavigationDestination) => string;
+}
+
+type NavigationChooserHandler = (destination: NavigationDestination, apps: NavigationApp[]) => void;
+
+// Registered by the NavigationChooser component at the root of the app
+let chooserHandler: NavigationChooserHandler | null = null;
+
+const encodeLabel = (destination: NavigationDestination) => encodeURIComponent(destination.label || '');
+
+const NAVIGATION_APPS: NavigationApp[] = [
+  {
+    id: 'waze',
+    name: 'Waze',
+    detectUrl: 'waze://',
+    buildUrl: ({ latitude, longitude }) => `waze://?ll=${latitude},${longitude}&navigate=yes`,
+    buildWebUrl: ({ latitude, longitude }) => `https://waze.com/ul?ll=${latitude},${longitude}&navigate=yes`,
+  },
+  {
+    id: 'google',
+    name: 'Google Maps',
+    detectUrl: Platform.OS === 'ios' ? 'comgooglemaps://' : 'google.navigation:q=0,0',
+    buildUrl: ({ latitude, longitude }) => Platform.OS === 'ios'
+      ? `comgooglemaps://?daddr=${latitude},${longitude}&directionsmode=driving`
+      : `google.navigation:q=${latitude},${longitude}`,
+    buildWebUrl: ({ latitude, longitude }) =>
+      `https://www.google.com/maps/dir/?api=1&destination=${latitude},${longitude}&travelmode=driving`,
+  },
+  {
+    id: 'apple',
+    name: 'Apple Maps',
+    detectUrl: null,
+    buildUrl: (destination) =>
+      `maps://?daddr=${destination.latitude},${destination.longitude}&q=${encodeLabel(destination)}`,
+  },
+  {
+    id: 'uber',
+    name: 'Uber',
+    detectUrl: 'uber://',
+    buildUrl: (destination) =>
+      `uber://?action=setPickup&pickup=my_location` +
+      `&dropoff[latitude]=${destination.latitude}&dropoff[longitude]=${destination.longitude}` +
+      `&dropoff[nickname]=${encodeLabel(destination)}`,
+    buildWebUrl: (destination) =>
+      `https://m.uber.com/ul/?action=setPickup&pickup=my_location` +
+      `&dropoff[latitude]=${destination.latitude}&dropoff[longitude]=${destination.longitude}` +
+      `&dropoff[nickname]=${encodeLabel(destination)}`,
+  },
+  {
+    id: '99',
+    name: '99',
+    detectUrl: 'taxis99://',
+    buildUrl: (destination) =>
+      `taxis99://call?dropoff_latitude=${destination.latitude}&dropoff_longitude=${destination.longitude}` +
+      `&dropoff_title=${encodeLabel(destination)}`,
+  },
+];
+
+/**
+ * Check whether a value is a supported navigation app id
+ */
+export function isNavigationAppId(value: unknown): value is NavigationAppId {
+  return NAVIGATION_APPS.some(app => app.id === value);
+}
+
+/**
+ * Get the apps supported on this platform
+ * @returns {NavigationApp[]} The navigation apps
+ */
+export function getNavigationApps(): NavigationApp[] {
+  return NAVIGATION_APPS.filter(app => app.id !== 'apple' || Platform.OS === 'ios');
+}
+
+/**
+ * Detect which navigation apps are installed
+ * @returns {Promise<NavigationApp[]>} The installed apps
+ */
+export async function getInstalledNavigationApps(): Promise<NavigationApp[]> {
+  const apps = getNavigationApps();
+  const installed = await Promise.all(
+    apps.map(async app => {
+      if (!app.detectUrl) return true;
+      try {
+        return await Linking.canOpenURL(app.detectUrl);
+      } catch (error) {
+        console.warn('Navigation: Failed to detect app:', app.id, error);
+        return false;
+      }
+    })
+  );
+
+  return apps.filter((app, index) => installed[index]);
+}
+
+/**
+ * Load the app chosen as default on this device
+ * @returns {Promise<NavigationAppId | null>} The app id
+ */
+export async function loadDefaultNavigationApp(): Promise<NavigationAppId | null> {
+  try {
+    const value = await AsyncStorage.getItem(STORAGE_KEY);
+    return isNavigationAppId(value) ? value : null;
+  } catch (error) {
+    console.error('Navigation: Failed to load default app:', error);
+    return null;
+  }
+}
+
+/**
+ * Remember the default navigation app, or forget it when null
+ * @param {NavigationAppId | null} id The app id
+ */
+export async function saveDefaultNavigationApp(id: NavigationAppId | null): Promise<void> {
+  try {
+    if (id) {
+      await AsyncStorage.setItem(STORAGE_KEY, id);
+    } else {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Navigation: Failed to save default app:', error);
+  }
+}
+
+/**
+ * Open a destination in a navigation app, using its web version when the app can't be opened
+ * @param {NavigationApp} app The navigation app
+ * @param {NavigationDestination} destination The destination
+ * @returns {Promise<boolean>} Whether a URL was opened
+ */
+export async function openNavigationApp(app: NavigationApp, destination: NavigationDestination): Promise<boolean> {
+  const url = app.buildUrl(destination);
+  console.log('Navigation: Opening', app.id, url);
+
+  try {
+    await Linking.openURL(url);
+    return true;
+  } catch (error) {
+    console.warn('Navigation: Failed to open app:', app.id, error);
+  }
+
+  if (app.buildWebUrl) {
+    try {
+      await Linking.openURL(app.buildWebUrl(destination));
+      return true;
+    } catch (error) {
+      console.error('Navigation: Failed to open web fallback:', app.id, error);
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Start navigation to a destination
+ * Uses the requested app, then the remembered default, and otherwise asks the user to choose
+ * @param {NavigationDestination} destination The destination
+ * @param {NavigationAppId} appId Optional app to use
+ * @param {boolean} forceChooser Always ask the user, ignoring the remembered default
+ * @returns {Promise<boolean>} Whether navigation was handed off (false while the chooser is open)
+ */
+export async function navigateTo(
+  destination: NavigationDestination,
+  appId?: NavigationAppId,
+  forceChooser: boolean = false
+): Promise<boolean> {
+  if (appId) {
+    const app = getNavigationApps().find(item => item.id === appId);
+    if (app) return openNavigationApp(app, destination);
+    console.warn('Navigation: App not supported on this platform:', appId);
+  }
+
+  const installed = await getInstalledNavigationApps();
+
+  if (!forceChooser) {
+    const defaultId = await loadDefaultNavigationApp();
+    const defaultApp = installed.find(app => app.id === defaultId);
+    if (defaultApp) return openNavigationApp(defaultApp, destination);
+  }
+
+  // Nothing to choose from, use the web version of Google Maps
+  if (installed.length === 0) {
+    const google = NAVIGATION_APPS.find(app => app.id === 'google')!;
+    return openNavigationApp({ ...google, buildUrl: google.buildWebUrl! }, destination);
+  }
+
+  if (installed.length === 1 && !forceChooser) {
+    return openNavigationApp(installed[0], destination);
+  }
+
+  if (chooserHandler) {
+    chooserHandler(destination, installed);
+  } else {
+    console.warn('NavigationChooser component not mounted');
+    return openNavigationApp(installed[0], destination);
+  }
+  return false;
+}
+
+/**
+ * Register the component that asks the user which app to use
+ * @param {Function | null} handler Function that shows the chooser, null to unregister
+ */
+export function setNavigationChooserHandler(handler: NavigationChooserHandler | null): void {
+  chooserHandler = handler;
+}
@@ -0,0 +1,207 @@
+/**
+ * Actionable alert notifications
+ * Registers the notification categories and their buttons, displays data-only alert
+ * pushes received in the background, and handles the button taps.
+ *
+ * The server sends the alert type in the `category` data field. Android pushes must be
+ * data-only (with `title` and `message` in the data) so the background handler can add the
+ * buttons; on iOS the same id goes in `aps.category`.
+ */
+
+import { Linking, Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import type { Router } from 'expo-router';
+import { FirebaseMessagingTypes } from '@react-native-firebase/messaging';
+import { ALERT_ACTION_LABELS, ALERT_CATEGORIES, AlertActionId, parseAlertCategory } from './alertCategories';
+import { countAlertBurst, formatAlertBurstSummary } from './alertGroups';
+import { checkAlertFilters, normalizePlate } from './alertPreferences';
+import { getGeofenceExitTitle } from './geofences';
+import { loadInbox, markInboxEntryRead, recordNotification } from './inbox';
+import { getNotificationChannelId } from './notificationChannels';
+import { isAllowedPortalUrl } from './portal';
+import { getNotificationRoute, openPushRoute } from './pushRoutes';
+import { showToast } from './toast';
+
+// Responses already handled, the launch response can be reported twice
+const handledResponses = new Set<string>();
+
+let categoriesRegistered: Promise<void> | null = null;
+
+/**
+ * Register the alert categories and their buttons
+ * Safe to call more than once, from the app and from the background handler
+ */
+export function registerNotificationCategories(): Promise<void> {
+  if (!categoriesRegistered) {
+    categoriesRegistered = (async () => {
+      try {
+        for (const category of Object.values(ALERT_CATEGORIES)) {
+          await Notifications.setNotificationCategoryAsync(
+            category.id,
+            category.actions.map(action => ({
+              identifier: action,
+              buttonTitle: ALERT_ACTION_LABELS[action],
+              options: {
+                // Acknowledging doesn't need the app, every other button opens it
+                opensAppToForeground: action !== 'acknowledge',
+                isDestructive: action === 'block_vehicle',
+              },
+            }))
+          );
+        }
+        console.log('NotificationActions: Categories registered');
+      } catch (error) {
+        console.error('NotificationActions: Failed to register categories:', error);
+        categoriesRegistered = null;
+      }
+    })();
+  }
+
+  return categoriesRegistered;
+}
+
+/**
+ * Handle a push received while the app is in the background or killed
+ * Stores it in the inbox and displays data-only alerts with their buttons,
+ * unless the alert preferences or the portal filters mute them.
+ * Alerts of the same vehicle replace its previous notification with a summary.
+ * Pushes with a `notification` payload are displayed by the system instead, a geofence
+ * exit detected on the device only changes the title of data-only alerts.
+ * @param {RemoteMessage} message The FCM message
+ */
+export async function handleBackgroundMessage(message: FirebaseMessagingTypes.RemoteMessage): Promise<void> {
+  const event = await recordNotification(message);
+
+  // Every position is checked, so the geofences the vehicle is in stay up to date
+  const geofenceTitle = await getGeofenceExitTitle(event);
+
+  // The system already showed pushes with a notification payload, a second one would duplicate it
+  if (message.notification) return;
+
+  const category = parseAlertCategory(message.data) || (geofenceTitle ? 'geofence_exit' : null);
+  if (!category) return;
+
+  const data = { ...message.data, category };
+  const filterReason = await checkAlertFilters(data, event);
+  if (filterReason) {
+    console.log('NotificationActions: Alert not displayed:', filterReason);
+    return;
+  }
+
+  await registerNotificationCategories();
+
+  let title = typeof message.data?.title === 'string' || event.evento ? event.title : ALERT_CATEGORIES[category].label;
+
+  // One notification per vehicle, replaced with a summary while its alerts keep coming
+  let identifier: string | undefined;
+  if (event.placa) {
+    identifier = `vehicle-${normalizePlate(event.placa)}`;
+    const count = countAlertBurst(await loadInbox(), event.placa);
+    if (count > 1) {
+      title = formatAlertBurstSummary(event.placa, count);
+    }
+  }
+
+  try {
+    await Notifications.scheduleNotificationAsync({
+      identifier,
+      content: {
+        title: geofenceTitle || title,
+        body: event.message,
+        data: { ...data, messageId: message.messageId },
+        categoryIdentifier: category,
+      },
+      trigger: Platform.OS === 'android' ? { channelId: getNotificationChannelId(data) } : null,
+    });
+  } catch (error) {
+    console.error('NotificationActions: Failed to display alert:', error);
+  }
+}
+
+/**
+ * Get the phone number of the driver from the push data
+ */
+function getDriverPhone(data: Record<string, unknown>): string | null {
+  const value = data.telefone ?? data.phone ?? data.tel;
+  const phone = typeof value === 'string' || typeof value === 'number' ? String(value).replace(/[^\d+]/g, '') : '';
+  return phone || null;
+}
+
+/**
+ * Handle a tap on an alert notification or one of its buttons
+ * @param {NotificationResponse} response The notification response
+ * @param {Router} router The app router
+ */
+export async function handleNotificationResponse(
+  response: Notifications.NotificationResponse,
+  router: Router
+): Promise<void> {
+  const { notification, actionIdentifier } = response;
+  const key = `${notification.request.identifier}:${actionIdentifier}`;
+  if (handledResponses.has(key)) return;
+  handledResponses.add(key);
+
+  const data = (notification.request.content.data || {}) as Record<string, unknown>;
+  const title = notification.request.content.title || undefined;
+  const body = notification.request.content.body || undefined;
+  const messageId = typeof data.messageId === 'string' ? data.messageId : null;
+
+  console.log('NotificationActions: Response received:', actionIdentifier, data);
+
+  if (messageId) {
+    markInboxEntryRead(messageId);
+  }
+
+  switch (actionIdentifier as AlertActionId) {
+    case 'acknowledge':
+      await Notifications.dismissNotificationAsync(notification.request.identifier);
+      return;
+
+    case 'call_driver': {
+      const phone = getDriverPhone(data);
+      if (phone) {
+        Linking.openURL(`tel:${phone}`).catch(error => {
+          console.error('NotificationActions: Failed to open dialer:', error);
+        });
+        return;
+      }
+      showToast('Telefone do motorista não informado', { severity: 'warning' });
+      break;
+    }
+
+    case 'block_vehicle': {
+      // Blocking is done in the portal, on the page sent by the server when available
+      const blockUrl = [data.blockUrl, data.url].find(
+        (value): value is string => typeof value === 'string' && isAllowedPortalUrl(value)
+      );
+      openPushRoute(router, { pathname: '/', params: blockUrl ? { portalPath: blockUrl } : {} });
+      return;
+    }
+  }
+
+  // Default tap and "Ver no mapa"
+  openPushRoute(router, getNotificationRoute(data, { title, body }));
+}
+
+/**
+ * Register the handler of notification taps, including the one that launched the app
+ * @param {Router} router The app router
+ * @returns {Function} Unsubscribe function
+ */
+export function onNotificationResponse(router: Router): () => void {
+  registerNotificationCategories();
+
+  Notifications.getLastNotificationResponseAsync()
+    .then(response => {
+      if (response) handleNotificationResponse(response, router);
+    })
+    .catch(error => {
+      console.error('NotificationActions: Failed to get launch response:', error);
+    });
+
+  const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+    handleNotificationResponse(response, router);
+  });
+
+  return () => subscription.remove();
+}
@@ -0,0 +1,181 @@
+/**
+ * Android notification channels
+ * Each alert category is delivered on its own channel, so the user can change its sound,
+ * vibration and Do Not Disturb behavior in the system settings.
+ */
+
+import { Linking, Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import config from './config';
+import { AlertCategoryId, parseAlertCategory } from './alertCategories';
+import { VehicleEventPayload } from './vehicleEvent';
+
+/**
+ * A notification channel and the alert categories delivered on it
+ */
+export interface NotificationChannelDefinition {
+  id: string;
+  name: string;
+  description: string;
+  categories: AlertCategoryId[];
+  channel: Omit<Notifications.NotificationChannelInput, 'name' | 'description'>;
+}
+
+/**
+ * Current state of a channel, as changed by the user in the system settings
+ */
+export interface NotificationChannelStatus {
+  id: string;
+  name: string;
+  description: string;
+  // False when the channel was not created yet or was disabled by the user
+  enabled: boolean;
+  sound: boolean;
+  vibration: boolean;
+  bypassDnd: boolean;
+}
+
+// Channels in the order they are listed in the settings screen
+export const NOTIFICATION_CHANNELS: NotificationChannelDefinition[] = [
+  {
+    id: 'panic',
+    name: 'Pânico',
+    description: 'Botão de pânico acionado, toca como alarme',
+    categories: ['panic'],
+    channel: {
+      importance: Notifications.AndroidImportance.MAX,
+      sound: 'default',
+      // Played on the alarm stream so it is heard with the ringer muted
+      audioAttributes: {
+        usage: Notifications.AndroidAudioUsage.ALARM,
+        contentType: Notifications.AndroidAudioContentType.SONIFICATION,
+      },
+      vibrationPattern: [0, 1000, 500, 1000, 500, 1000],
+      enableVibrate: true,
+      // Only applied once the app has Do Not Disturb access, see openDoNotDisturbAccessSettings
+      bypassDnd: true,
+      lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+    },
+  },
+  {
+    id: config.firebase.notificationChannelId,
+    name: config.firebase.notificationChannelName,
+    description: 'Saída de cerca, excesso de velocidade e bateria baixa',
+    categories: ['geofence_exit', 'speeding', 'low_battery'],
+    channel: {
+      importance: Notifications.AndroidImportance.HIGH,
+      sound: 'default',
+      vibrationPattern: [0, 250, 250, 250],
+      enableVibrate: true,
+    },
+  },
+  {
+    id: 'routine',
+    name: 'Eventos de rotina',
+    description: 'Ignição ligada e outros eventos do dia a dia, sem som',
+    categories: ['ignition_on'],
+    channel: {
+      importance: Notifications.AndroidImportance.LOW,
+      sound: null,
+      enableVibrate: false,
+    },
+  },
+];
+
+/**
+ * Get the channel a push is delivered on
+ * Uses the `channel` data field when it names a known channel, then the alert category,
+ * and otherwise the default channel.
+ * @param {VehicleEventPayload} data The push data
+ * @returns {string} The channel id
+ */
+export function getNotificationChannelId(data: VehicleEventPayload): string {
+  const requested = data?.channel;
+  if (typeof requested === 'string' && NOTIFICATION_CHANNELS.some(channel => channel.id === requested)) {
+    return requested;
+  }
+
+  const category = parseAlertCategory(data);
+  const channel = category && NOTIFICATION_CHANNELS.find(item => item.categories.includes(category));
+  return channel ? channel.id : config.firebase.notificationChannelId;
+}
+
+/**
+ * Create the notification channels
+ * Existing channels keep the settings changed by the user, Android only updates their name and description
+ */
+export async function createNotificationChannels(): Promise<void> {
+  if (Platform.OS !== 'android') return;
+
+  for (const definition of NOTIFICATION_CHANNELS) {
+    try {
+      await Notifications.setNotificationChannelAsync(definition.id, {
+        ...definition.channel,
+        name: definition.name,
+        description: definition.description,
+      });
+    } catch (error) {
+      console.error('NotificationChannels: Failed to create channel:', definition.id, error);
+    }
+  }
+  console.log('NotificationChannels: Channels created');
+}
+
+/**
+ * Get the current state of every channel
+ * @returns {Promise<NotificationChannelStatus[]>} The channels, empty on iOS
+ */
+export async function getNotificationChannelStatuses(): Promise<NotificationChannelStatus[]> {
+  if (Platform.OS !== 'android') return [];
+
+  const channels = await Notifications.getNotificationChannelsAsync();
+
+  return NOTIFICATION_CHANNELS.map(definition => {
+    const channel = channels.find(item => item.id === definition.id);
+    return {
+      id: definition.id,
+      name: channel?.name || definition.name,
+      description: definition.description,
+      enabled: !!channel && channel.importance !== Notifications.AndroidImportance.NONE,
+      sound: !!channel?.sound,
+      vibration: !!channel?.enableVibrate,
+      bypassDnd: !!channel?.bypassDnd,
+    };
+  });
+}
+
+/**
+ * Open the system settings of a channel, or the app notification settings when not available
+ * @param {string} channelId The channel id
+ */
+export async function openNotificationChannelSettings(channelId: string): Promise<void> {
+  if (Platform.OS !== 'android') {
+    Linking.openURL('app-settings:');
+    return;
+  }
+
+  try {
+    await Linking.sendIntent('android.settings.CHANNEL_NOTIFICATION_SETTINGS', [
+      { key: 'android.provider.extra.APP_PACKAGE', value: config.applicationId },
+      { key: 'android.provider.extra.CHANNEL_ID', value: channelId },
+    ]);
+  } catch (error) {
+    console.warn('NotificationChannels: Failed to open channel settings:', channelId, error);
+    Linking.openSettings();
+  }
+}
+
+/**
+ * Open the system screen where the user allows the app to override Do Not Disturb
+ * Channels with bypassDnd only sound during Do Not Disturb once this access is granted
+ */
+export async function openDoNotDisturbAccessSettings(): Promise<void> {
+  if (Platform.OS !== 'android') return;
+
+  try {
+    await Linking.sendIntent('android.settings.NOTIFICATION_POLICY_ACCESS_SETTINGS');
+  } catch (error) {
+    console.warn('NotificationChannels: Failed to open Do Not Disturb access settings:', error);
+    Linking.openSettings();
+  }
+}
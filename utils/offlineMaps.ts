@@ -0,0 +1,403 @@
+/**
+ * Offline map packs
+ * Pre-downloads map tiles for user-chosen regions and around received alerts,
+ * so the map screen still renders where there is poor coverage.
+ */
+
+import { Platform } from 'react-native';
+import { OfflineManager, OfflinePack, OfflinePackStatus, setConnected } from '@maplibre/maplibre-react-native';
+import { getOfflineStyleUrl } from './mapStyles';
+import { VehicleEvent, hasVehicleCoordinates } from './vehicleEvent';
+
+// Style downloaded by the offline packs - must be a style URL, inline styles can't be cached
+export const OFFLINE_STYLE_URL = getOfflineStyleUrl();
+
+// Area cached around each alert position (~1.5 km in every direction)
+const ALERT_REGION_DELTA = 0.015;
+const ALERT_MIN_ZOOM = 12;
+const ALERT_MAX_ZOOM = 17;
+
+// Oldest alert packs are deleted once this limit is reached
+const MAX_ALERT_REGIONS = 20;
+
+// Alerts received within this interval are cached together, so a burst doesn't queue a pack per push (ms)
+const ALERT_CACHE_DELAY = 10000;
+
+// Alert packs created per burst, for the latest alert positions
+const MAX_ALERT_REGIONS_PER_BURST = 3;
+
+// Size of the cache of tiles seen while browsing the map (bytes)
+const AMBIENT_CACHE_SIZE = 100 * 1024 * 1024;
+
+// Time to wait for the style server before considering the device offline (ms)
+const NETWORK_CHECK_TIMEOUT = 4000;
+
+// Download progress is sent to the listeners at most once per interval (ms)
+const PROGRESS_NOTIFY_INTERVAL = 500;
+
+/**
+ * Origin of an offline region
+ */
+export type OfflineRegionKind = 'user' | 'alert';
+
+/**
+ * An offline pack with its download status
+ */
+export interface OfflineRegion {
+  name: string;
+  label: string;
+  kind: OfflineRegionKind;
+  createdAt: number;
+  // Download progress, 0 to 100
+  percentage: number;
+  // Downloaded size in bytes
+  size: number;
+  complete: boolean;
+}
+
+/**
+ * Bounds of a region, [northEast, southWest] as [lng, lat]
+ */
+export type OfflineRegionBounds = [[number, number], [number, number]];
+
+type OfflineRegionsListener = (regions: OfflineRegion[]) => void;
+
+const listeners = new Set<OfflineRegionsListener>();
+let initialized: Promise<void> | null = null;
+
+// Regions last sent to the listeners, updated in place by the progress callbacks
+let notifiedRegions: OfflineRegion[] | null = null;
+let progressTimer: ReturnType<typeof setTimeout> | null = null;
+let pendingRefresh: Promise<void> | null = null;
+
+// Alert positions waiting to be cached, by region label, oldest first
+const pendingAlertRegions = new Map<string, VehicleEvent & { latitude: number; longitude: number }>();
+let alertCacheTimer: ReturnType<typeof setTimeout> | null = null;
+let alertCacheQueue: Promise<void> = Promise.resolve();
+let missingStyleLogged = false;
+
+/**
+ * Convert a native pack into an OfflineRegion
+ */
+function toOfflineRegion(pack: OfflinePack, status: OfflinePackStatus): OfflineRegion {
+  const metadata = pack.metadata || {};
+
+  return {
+    name: status.name || pack.name || '',
+    label: metadata.label || pack.name || '',
+    kind: metadata.kind === 'alert' ? 'alert' : 'user',
+    createdAt: metadata.createdAt || 0,
+    percentage: Math.min(Math.round(status.percentage || 0), 100),
+    size: status.completedResourceSize || 0,
+    complete: status.percentage >= 100,
+  };
+}
+
+/**
+ * Notify listeners with the current list of regions
+ */
+async function notifyListeners(): Promise<void> {
+  if (listeners.size === 0) return;
+
+  const regions = await listOfflineRegions();
+  notifiedRegions = regions;
+  listeners.forEach(listener => listener(regions));
+}
+
+/**
+ * Update the region of a pack that reported progress, without listing every pack again
+ * Updates are throttled, a finished download is sent right away
+ */
+function handlePackProgress(pack: OfflinePack, status: OfflinePackStatus): void {
+  if (listeners.size === 0) return;
+
+  const region = toOfflineRegion(pack, status);
+  if (!notifiedRegions || !notifiedRegions.some(item => item.name === region.name)) {
+    // Unknown pack, e.g. progress arriving before the first listing
+    if (!pendingRefresh) {
+      pendingRefresh = notifyListeners().finally(() => {
+        pendingRefresh = null;
+      });
+    }
+    return;
+  }
+
+  notifiedRegions = notifiedRegions.map(item => (item.name === region.name ? region : item));
+
+  if (region.complete && progressTimer) {
+    clearTimeout(progressTimer);
+    progressTimer = null;
+  }
+  if (progressTimer) return;
+
+  const send = () => {
+    progressTimer = null;
+    const regions = notifiedRegions || [];
+    listeners.forEach(listener => listener(regions));
+  };
+
+  if (region.complete) {
+    send();
+  } else {
+    progressTimer = setTimeout(send, PROGRESS_NOTIFY_INTERVAL);
+  }
+}
+
+/**
+ * Forward download progress of a pack to the listeners
+ */
+function subscribeToPack(name: string): void {
+  OfflineManager.subscribe(
+    name,
+    handlePackProgress,
+    (pack, error) => {
+      console.error('OfflineMaps: Error downloading pack:', name, error.message);
+      notifyListeners();
+    }
+  );
+}
+
+/**
+ * Configure the ambient cache and resume progress reporting of unfinished packs
+ * Safe to call more than once
+ */
+export function initOfflineMaps(): Promise<void> {
+  if (!initialized) {
+    initialized = (async () => {
+      try {
+        await OfflineManager.setMaximumAmbientCacheSize(AMBIENT_CACHE_SIZE);
+
+        const packs = await OfflineManager.getPacks();
+        for (const pack of packs) {
+          const status = await pack.status();
+          if (status.percentage < 100 && pack.name) {
+            subscribeToPack(pack.name);
+          }
+        }
+      } catch (error) {
+        console.error('OfflineMaps: Failed to initialize:', error);
+      }
+    })();
+  }
+
+  return initialized;
+}
+
+/**
+ * List the downloaded regions, newest first
+ * @returns {Promise<OfflineRegion[]>} The offline regions
+ */
+export async function listOfflineRegions(): Promise<OfflineRegion[]> {
+  try {
+    const packs = await OfflineManager.getPacks();
+    const regions = await Promise.all(
+      packs.map(async pack => toOfflineRegion(pack, await pack.status()))
+    );
+    return regions.sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error) {
+    console.error('OfflineMaps: Failed to list packs:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the storage used by the offline regions
+ * @returns {number} Size in bytes
+ */
+export function getOfflineStorageUsage(regions: OfflineRegion[]): number {
+  return regions.reduce((total, region) => total + region.size, 0);
+}
+
+/**
+ * Start downloading a region
+ * @param {string} label Name shown to the user
+ * @param {OfflineRegionBounds} bounds Region bounds
+ * @param {number} minZoom Minimum zoom level to download
+ * @param {number} maxZoom Maximum zoom level to download
+ * @param {OfflineRegionKind} kind Origin of the region
+ */
+export async function downloadOfflineRegion(
+  label: string,
+  bounds: OfflineRegionBounds,
+  minZoom: number,
+  maxZoom: number,
+  kind: OfflineRegionKind = 'user'
+): Promise<void> {
+  if (!OFFLINE_STYLE_URL) {
+    throw new Error('No map provider with a style URL is configured for offline packs');
+  }
+
+  await initOfflineMaps();
+
+  const createdAt = Date.now();
+  const name = `${kind}-${createdAt}`;
+
+  console.log('OfflineMaps: Downloading region:', name, label, bounds, `z${minZoom}-${maxZoom}`);
+
+  await OfflineManager.createPack(
+    {
+      name,
+      styleURL: OFFLINE_STYLE_URL,
+      bounds,
+      minZoom,
+      maxZoom,
+      metadata: { label, kind, createdAt },
+    },
+    handlePackProgress,
+    (pack, error) => {
+      console.error('OfflineMaps: Error downloading pack:', name, error.message);
+      notifyListeners();
+    }
+  );
+
+  notifyListeners();
+}
+
+/**
+ * Cache the tiles around an alert position
+ * Alerts are cached ALERT_CACHE_DELAY after the first one of a burst, only the latest
+ * MAX_ALERT_REGIONS_PER_BURST areas, and only the latest MAX_ALERT_REGIONS alert packs are kept
+ * @param {VehicleEvent} event The received alert
+ */
+export async function cacheAlertRegion(event: VehicleEvent): Promise<void> {
+  if (!hasVehicleCoordinates(event)) return;
+
+  if (!OFFLINE_STYLE_URL) {
+    if (!missingStyleLogged) {
+      missingStyleLogged = true;
+      console.warn('OfflineMaps: No map provider with a style URL is configured, alert regions are not cached');
+    }
+    return;
+  }
+
+  // Re-added so the latest alerts are the last ones
+  const label = getAlertRegionLabel(event);
+  pendingAlertRegions.delete(label);
+  pendingAlertRegions.set(label, event);
+
+  if (!alertCacheTimer) {
+    alertCacheTimer = setTimeout(flushAlertRegions, ALERT_CACHE_DELAY);
+  }
+}
+
+/**
+ * Create the packs of the alerts received in the last burst, one after the other
+ */
+function flushAlertRegions(): void {
+  alertCacheTimer = null;
+
+  const events = Array.from(pendingAlertRegions.values()).slice(-MAX_ALERT_REGIONS_PER_BURST);
+  pendingAlertRegions.clear();
+
+  alertCacheQueue = alertCacheQueue.then(async () => {
+    for (const event of events) {
+      await createAlertRegion(event);
+    }
+  });
+}
+
+/**
+ * Download the pack of an alert position, unless it is already cached
+ * @param {VehicleEvent} event The alert, with coordinates
+ */
+async function createAlertRegion(event: VehicleEvent & { latitude: number; longitude: number }): Promise<void> {
+  try {
+    const regions = await listOfflineRegions();
+    const alertRegions = regions.filter(region => region.kind === 'alert');
+
+    // Skip alerts inside an already cached area
+    const alreadyCached = alertRegions.some(region => region.label === getAlertRegionLabel(event));
+    if (alreadyCached) return;
+
+    for (const region of alertRegions.slice(MAX_ALERT_REGIONS - 1)) {
+      await OfflineManager.deletePack(region.name);
+    }
+
+    const { latitude, longitude } = event;
+    await downloadOfflineRegion(
+      getAlertRegionLabel(event),
+      [
+        [longitude + ALERT_REGION_DELTA, latitude + ALERT_REGION_DELTA],
+        [longitude - ALERT_REGION_DELTA, latitude - ALERT_REGION_DELTA],
+      ],
+      ALERT_MIN_ZOOM,
+      ALERT_MAX_ZOOM,
+      'alert'
+    );
+  } catch (error) {
+    console.error('OfflineMaps: Failed to cache alert region:', error);
+  }
+}
+
+/**
+ * Label of the pack cached for an alert, rounded so nearby alerts share a pack
+ */
+function getAlertRegionLabel(event: VehicleEvent & { latitude: number; longitude: number }): string {
+  return `Alerta ${event.latitude.toFixed(2)}, ${event.longitude.toFixed(2)}`;
+}
+
+/**
+ * Delete a downloaded region
+ * @param {string} name The pack name
+ */
+export async function deleteOfflineRegion(name: string): Promise<void> {
+  try {
+    await OfflineManager.deletePack(name);
+  } catch (error) {
+    console.error('OfflineMaps: Failed to delete pack:', name, error);
+  }
+  notifyListeners();
+}
+
+/**
+ * Check whether the map style server can be reached
+ * When it can't, MapLibre is switched to offline mode so it renders from the cache (Android)
+ * @returns {Promise<boolean>} Whether the device is online
+ */
+export async function checkMapConnectivity(): Promise<boolean> {
+  if (!OFFLINE_STYLE_URL) return true;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), NETWORK_CHECK_TIMEOUT);
+
+  let online = false;
+  try {
+    const response = await fetch(OFFLINE_STYLE_URL, { method: 'HEAD', signal: controller.signal });
+    online = response.status < 500;
+  } catch (error) {
+    console.log('OfflineMaps: Style server unreachable, using offline cache');
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  // Only Android exposes the connectivity override, iOS detects it natively
+  if (Platform.OS === 'android') {
+    try {
+      setConnected(online);
+    } catch (error) {
+      console.warn('OfflineMaps: Failed to update connectivity state:', error);
+    }
+  }
+
+  return online;
+}
+
+/**
+ * Format a size in bytes for display
+ */
+export function formatStorageSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Register a callback for changes in the offline regions (new packs, progress, deletion)
+ * @param {Function} listener Function to call with the updated regions
+ * @returns {Function} Unsubscribe function
+ */
+export function onOfflineRegionsChange(listener: OfflineRegionsListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
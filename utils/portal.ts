@@ -0,0 +1,104 @@
+/**
+ * Portal URLs
+ * Builds the URLs loaded in the WebView and checks which hosts belong to the portal.
+ */
+
+import config from './config';
+import { VehicleEvent } from './vehicleEvent';
+
+/**
+ * Check whether a hostname belongs to one of the allowed portal domains
+ * @param {string} hostname The hostname to check
+ * @returns {boolean} Whether it is allowed
+ */
+export function isAllowedPortalHostname(hostname: string): boolean {
+  return config.webview.allowedDomains.some(domain => {
+    // If domain is a full hostname (contains dots), match exactly
+    if (domain.includes('.')) {
+      return hostname === domain || hostname.endsWith('.' + domain);
+    }
+    // Otherwise, check if hostname contains the domain
+    return hostname.includes(domain);
+  });
+}
+
+/**
+ * Check whether a URL is an https URL of the portal
+ * @param {string} url The URL to check
+ * @returns {boolean} Whether it is allowed
+ */
+export function isAllowedPortalUrl(url: string): boolean {
+  try {
+    const urlObj = new URL(url);
+    return urlObj.protocol === 'https:' && isAllowedPortalHostname(urlObj.hostname);
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Build the URL loaded in the WebView, identifying the device with its FCM token
+ * @param {string} baseUrl The portal base URL
+ * @param {string | null} token The FCM token
+ * @param {string} path Optional portal path relative to the base URL, or full portal URL
+ * @returns {string} The URL, or the base URL when the path leaves the portal
+ */
+export function buildPortalUrl(baseUrl: string, token: string | null, path?: string): string {
+  if (path) {
+    try {
+      // Paths are kept under the base path, e.g. /veiculo/X on .../mob/brand becomes .../mob/brand/veiculo/X
+      const base = new URL(baseUrl);
+      if (!base.pathname.endsWith('/')) {
+        base.pathname += '/';
+      }
+      const urlObj = new URL(path.replace(/^\/+/, ''), base);
+      if (isAllowedPortalUrl(urlObj.href)) {
+        if (token) {
+          urlObj.searchParams.set('device', token);
+        }
+        return urlObj.href;
+      }
+      console.warn('Portal: Ignoring path outside the portal:', path);
+    } catch (error) {
+      console.warn('Portal: Invalid path:', path, error);
+    }
+  }
+
+  if (token) {
+    return `${baseUrl}?device=${token}`;
+  }
+  return baseUrl;
+}
+
+/**
+ * Build the portal path of an alert from the configured templates
+ * @param {VehicleEvent} event The vehicle event
+ * @param {string[]} templates Path templates, in order of preference
+ * @returns {string | null} The path of the first template filled by the event, or null when none is
+ */
+export function buildPortalEventPath(
+  event: Pick<VehicleEvent, 'placa' | 'id' | 'eventoCode'>,
+  templates: string[] = config.webview.eventPathTemplates
+): string | null {
+  const values: Record<string, string | undefined> = {
+    placa: event.placa,
+    id: event.id,
+    evt: event.eventoCode,
+  };
+
+  for (const template of templates) {
+    let complete = true;
+    const path = template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = values[name];
+      if (!value) {
+        complete = false;
+        return placeholder;
+      }
+      return encodeURIComponent(value);
+    });
+
+    if (complete) return path;
+  }
+
+  return null;
+}
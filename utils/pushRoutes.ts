@@ -0,0 +1,189 @@
+/**
+ * Push notification routing
+ * Declares the screens a push can open through its `screen` or `url` data fields,
+ * and validates their params before navigating.
+ */
+
+import type { Router } from 'expo-router';
+import { isAllowedPortalUrl } from './portal';
+import {
+  parseVehicleEvent,
+  parseDecimal,
+  hasVehicleCoordinates,
+  vehicleEventToParams,
+  VehicleEventDefaults,
+  VehicleEventPayload,
+} from './vehicleEvent';
+
+/**
+ * App routes a push can open
+ */
+export type PushRoutePath = '/' | '/map' | '/inbox' | '/offline-maps' | '/settings';
+
+/**
+ * A validated navigation target
+ */
+export interface PushRoute {
+  pathname: PushRoutePath;
+  params: Record<string, string>;
+}
+
+type PushParamType = 'string' | 'number' | 'latitude' | 'longitude' | 'portalUrl';
+
+interface PushParamDefinition {
+  type: PushParamType;
+  required?: boolean;
+  // Route param name, defaults to the push data key
+  param?: string;
+}
+
+interface PushRouteDefinition {
+  pathname: PushRoutePath;
+  // Push data fields passed to the route, by push data key
+  params?: Record<string, PushParamDefinition>;
+}
+
+// Screens accepted in the `screen` field
+const PUSH_ROUTES: Record<string, PushRouteDefinition> = {
+  home: { pathname: '/' },
+  inbox: { pathname: '/inbox' },
+  settings: { pathname: '/settings' },
+  'offline-maps': { pathname: '/offline-maps' },
+  map: {
+    pathname: '/map',
+    params: {
+      lat: { type: 'latitude', required: true },
+      lon: { type: 'longitude', required: true },
+      placa: { type: 'string' },
+      motorista: { type: 'string' },
+      end: { type: 'string' },
+      vel: { type: 'number' },
+      dt: { type: 'string' },
+      ign: { type: 'string' },
+      evt: { type: 'string' },
+      modelo: { type: 'string' },
+      id: { type: 'string' },
+      title: { type: 'string' },
+      message: { type: 'string' },
+    },
+  },
+  // Also used when the push only has a `url`
+  portal: {
+    pathname: '/',
+    params: {
+      url: { type: 'portalUrl', required: true, param: 'portalPath' },
+    },
+  },
+};
+
+// Opened when the push asks for an unknown screen or invalid params
+const FALLBACK_ROUTE: PushRoute = { pathname: '/inbox', params: {} };
+
+// Screen names accepted as aliases
+const SCREEN_ALIASES: Record<string, string> = {
+  '': 'home',
+  index: 'home',
+  webview: 'portal',
+};
+
+// Own keys only, so screens such as "constructor" are unknown
+const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+/**
+ * Check a push data value against its declared type
+ */
+function isValidParam(value: string, type: PushParamType): boolean {
+  switch (type) {
+    case 'number':
+      return !isNaN(parseDecimal(value));
+    case 'latitude':
+      return Math.abs(parseDecimal(value)) <= 90;
+    case 'longitude':
+      return Math.abs(parseDecimal(value)) <= 180;
+    case 'portalUrl':
+      return isAllowedPortalUrl(value);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Resolve the `screen` / `url` fields of a push
+ * @param {VehicleEventPayload} data The push data
+ * @returns {PushRoute | null} The route, the fallback route when invalid, or null when the push has neither field
+ */
+export function resolvePushRoute(data: VehicleEventPayload): PushRoute | null {
+  const screen = data?.screen;
+  const url = data?.url;
+
+  let name: string;
+  if (screen !== undefined && screen !== null) {
+    name = String(screen).trim().replace(/^\/+/, '').toLowerCase();
+    name = hasOwn(SCREEN_ALIASES, name) ? SCREEN_ALIASES[name] : name;
+  } else if (url) {
+    name = 'portal';
+  } else {
+    return null;
+  }
+
+  const definition = hasOwn(PUSH_ROUTES, name) ? PUSH_ROUTES[name] : undefined;
+  if (!definition) {
+    console.warn('PushRoutes: Unknown screen, opening fallback:', screen);
+    return FALLBACK_ROUTE;
+  }
+
+  const params: Record<string, string> = {};
+  for (const [key, param] of Object.entries(definition.params || {})) {
+    const value = data?.[key];
+
+    if (value === undefined || value === null || value === '') {
+      if (param.required) {
+        console.warn('PushRoutes: Missing param, opening fallback:', name, key);
+        return FALLBACK_ROUTE;
+      }
+      continue;
+    }
+
+    const text = String(value);
+    if (!isValidParam(text, param.type)) {
+      console.warn('PushRoutes: Invalid param, opening fallback:', name, key, text);
+      return FALLBACK_ROUTE;
+    }
+    params[param.param || key] = text;
+  }
+
+  return { pathname: definition.pathname, params };
+}
+
+/**
+ * Get the screen to open for a notification
+ * Pushes with vehicle coordinates open the map, then the `screen` / `url` fields are used,
+ * and otherwise the map shows the notification text.
+ * @param {VehicleEventPayload} data The push data
+ * @param {VehicleEventDefaults} defaults Title and body of the notification
+ * @returns {PushRoute} The route to open
+ */
+export function getNotificationRoute(data: VehicleEventPayload, defaults: VehicleEventDefaults = {}): PushRoute {
+  const { event } = parseVehicleEvent(data, defaults);
+
+  if (hasVehicleCoordinates(event)) {
+    return { pathname: '/map', params: vehicleEventToParams(event) };
+  }
+
+  return resolvePushRoute(data) || { pathname: '/map', params: vehicleEventToParams(event) };
+}
+
+/**
+ * Open a push route
+ * The portal screen is the root of the stack, so it is navigated back to instead of pushed,
+ * which would start a second WebView with its own token fetch and push listeners.
+ * @param {Router} router The app router
+ * @param {PushRoute} route The route to open
+ */
+export function openPushRoute(router: Router, route: PushRoute): void {
+  if (route.pathname === '/') {
+    router.navigate(route);
+  } else {
+    router.push(route);
+  }
+}
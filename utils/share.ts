@@ -0,0 +1,78 @@
+/**
+ * Alert sharing
+ * Formats a vehicle event as a text with a maps link, to be forwarded by WhatsApp or
+ * any other app through the native share sheet, optionally with a snapshot of the map.
+ */
+
+import { Platform, Share } from 'react-native';
+import * as Clipboard from 'expo-clipboard';
+import * as Sharing from 'expo-sharing';
+import { GeoPosition } from './geo';
+import { reverseGeocode } from './geocoding';
+import { showToast } from './toast';
+import { getSpeedLabel, hasVehicleCoordinates, splitMessageDriver, VehicleEvent } from './vehicleEvent';
+
+const SHARE_DIALOG_TITLE = 'Compartilhar alerta';
+
+/**
+ * Build a link that opens a position in the maps app of whoever receives it
+ * @param {GeoPosition} position The position
+ * @returns {string} A Google Maps link, also understood by iOS
+ */
+export function getMapsLink(position: GeoPosition): string {
+  return `https://www.google.com/maps/search/?api=1&query=${position.latitude},${position.longitude}`;
+}
+
+/**
+ * Format the shared text of an event
+ * @param {VehicleEvent} event The vehicle event
+ * @param {string} endereco The address, when the event has none
+ * @returns {string} One field per line, ending with the maps link
+ */
+export function formatShareText(event: VehicleEvent, endereco?: string | null): string {
+  const { text: messageText } = splitMessageDriver(event.message);
+  const address = event.endereco || endereco;
+
+  const lines = [
+    event.title,
+    messageText && messageText !== event.title ? messageText : null,
+    event.placa ? `Placa: ${event.placa}` : null,
+    event.motorista ? `Motorista: ${event.motorista}` : null,
+    address ? `Endereço: ${address}` : null,
+    event.velocidade !== undefined ? `Velocidade: ${getSpeedLabel(event)}` : null,
+    event.dataText ? `Data: ${event.dataText}` : null,
+    hasVehicleCoordinates(event) ? `Mapa: ${getMapsLink(event)}` : null,
+  ];
+
+  return lines.filter(Boolean).join('\n');
+}
+
+/**
+ * Share an event through the native share sheet
+ * Looks up the address when the event has none. On Android the image is shared as a file,
+ * which carries no text, so the text is copied to the clipboard to be pasted as its caption.
+ * @param {VehicleEvent} event The vehicle event
+ * @param {string | null} imageUri Snapshot of the map to attach, as a file URI
+ * @returns {Promise<boolean>} Whether the share sheet was completed, false when dismissed
+ */
+export async function shareVehicleEvent(event: VehicleEvent, imageUri?: string | null): Promise<boolean> {
+  const endereco = !event.endereco && hasVehicleCoordinates(event) ? await reverseGeocode(event) : null;
+  const message = formatShareText(event, endereco);
+
+  if (imageUri && Platform.OS === 'android') {
+    if (await Sharing.isAvailableAsync()) {
+      await Clipboard.setStringAsync(message);
+      showToast('Texto do alerta copiado, cole como legenda da imagem', { severity: 'info', duration: 5000 });
+
+      await Sharing.shareAsync(imageUri, { mimeType: 'image/png', dialogTitle: SHARE_DIALOG_TITLE });
+      return true;
+    }
+    console.warn('Share: File sharing not available, sharing the text only');
+  }
+
+  const result = await Share.share(
+    imageUri && Platform.OS === 'ios' ? { message, url: imageUri } : { message, title: SHARE_DIALOG_TITLE },
+    { dialogTitle: SHARE_DIALOG_TITLE, subject: event.title }
+  );
+  return result.action === Share.sharedAction;
+}
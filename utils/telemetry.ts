@@ -0,0 +1,211 @@
+/**
+ * Telemetry dictionary
+ * Decodes the raw ignition (`ign`) and event (`evt`) codes sent by the trackers.
+ * Each tracker brand uses its own codes, so the defaults below can be extended per brand
+ * and per tracker model in config.telemetry. Unknown codes are kept on the device so
+ * they can be mapped later.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import config, { TelemetryCodesConfig, TelemetryEventKind } from './config';
+
+const UNKNOWN_CODES_STORAGE_KEY = '@telemetry/unknownCodes';
+
+// Oldest unknown codes are dropped once the list grows past this size
+const MAX_UNKNOWN_CODES = 100;
+
+/**
+ * Display names of the event kinds
+ */
+export const TELEMETRY_EVENT_LABELS: Record<TelemetryEventKind, string> = {
+  panic: 'Pânico',
+  jamming: 'Interferência de sinal (jammer)',
+  battery_cut: 'Bateria desconectada',
+  ignition_on: 'Ignição ligada',
+  ignition_off: 'Ignição desligada',
+  speeding: 'Excesso de velocidade',
+  low_battery: 'Bateria baixa',
+  geofence_exit: 'Saída de cerca',
+};
+
+// Codes understood for every tracker, before the brand and model codes
+const DEFAULT_TELEMETRY_CODES: TelemetryCodesConfig = {
+  ignition: {
+    on: ['1', 'true', 'on'],
+    off: ['0', 'false', 'off', '4'],
+  },
+  events: {
+    panic: 'panic',
+    panico: 'panic',
+    sos: 'panic',
+    jamming: 'jamming',
+    jammer: 'jamming',
+    battery_cut: 'battery_cut',
+    power_cut: 'battery_cut',
+    corte_bateria: 'battery_cut',
+  },
+};
+
+/**
+ * A decoded tracker event
+ */
+export interface TelemetryEvent {
+  code: string;
+  // Undefined for codes configured with a label only
+  kind?: TelemetryEventKind;
+  label: string;
+}
+
+/**
+ * A code received without an entry in the dictionary
+ */
+export interface UnknownTelemetryCode {
+  field: 'ign' | 'evt';
+  code: string;
+  // Tracker model, when the push had one
+  modelo?: string;
+  firstSeenAt: number;
+  lastSeenAt: number;
+}
+
+/**
+ * Codes of a tracker model, merged and with lower case keys
+ */
+interface ResolvedTelemetryCodes {
+  ignitionOn: Set<string>;
+  ignitionOff: Set<string>;
+  events: Map<string, { kind?: TelemetryEventKind; label?: string }>;
+}
+
+const resolvedCodes = new Map<string, ResolvedTelemetryCodes>();
+
+// Unknown codes already recorded in this session
+const reportedCodes = new Set<string>();
+let unknownCodesQueue: Promise<void> = Promise.resolve();
+
+const normalizeCode = (code: string) => code.trim().toLowerCase();
+
+/**
+ * Merge the default, brand and model codes
+ */
+function getTelemetryCodes(modelo?: string): ResolvedTelemetryCodes {
+  const modelKey = modelo ? normalizeCode(modelo) : '';
+  const cached = resolvedCodes.get(modelKey);
+  if (cached) return cached;
+
+  const models = config.telemetry.models || {};
+  const modelName = Object.keys(models).find(name => normalizeCode(name) === modelKey);
+  const layers = [DEFAULT_TELEMETRY_CODES, config.telemetry, modelName ? models[modelName] : {}];
+
+  const codes: ResolvedTelemetryCodes = { ignitionOn: new Set(), ignitionOff: new Set(), events: new Map() };
+  layers.forEach(layer => {
+    // A code listed again in a later layer moves to the state given there
+    layer.ignition?.on?.forEach(code => {
+      codes.ignitionOff.delete(normalizeCode(code));
+      codes.ignitionOn.add(normalizeCode(code));
+    });
+    layer.ignition?.off?.forEach(code => {
+      codes.ignitionOn.delete(normalizeCode(code));
+      codes.ignitionOff.add(normalizeCode(code));
+    });
+    Object.entries(layer.events || {}).forEach(([code, value]) => {
+      codes.events.set(normalizeCode(code), typeof value === 'string' ? { kind: value } : value);
+    });
+  });
+
+  resolvedCodes.set(modelKey, codes);
+  return codes;
+}
+
+/**
+ * Keep an unknown code on the device, once per session
+ */
+function reportUnknownCode(field: UnknownTelemetryCode['field'], code: string, modelo?: string): void {
+  const key = `${field}|${modelo || ''}|${code}`;
+  if (reportedCodes.has(key)) return;
+  reportedCodes.add(key);
+
+  console.warn('Telemetry: Unknown code:', { field, code, modelo });
+
+  unknownCodesQueue = unknownCodesQueue.then(async () => {
+    const codes = await loadUnknownTelemetryCodes();
+    const now = Date.now();
+    const existing = codes.find(item => item.field === field && item.code === code && item.modelo === modelo);
+
+    const updated = existing
+      ? codes.map(item => (item === existing ? { ...item, lastSeenAt: now } : item))
+      : [{ field, code, modelo, firstSeenAt: now, lastSeenAt: now }, ...codes].slice(0, MAX_UNKNOWN_CODES);
+
+    try {
+      await AsyncStorage.setItem(UNKNOWN_CODES_STORAGE_KEY, JSON.stringify(updated));
+    } catch (error) {
+      console.error('Telemetry: Failed to save unknown codes:', error);
+    }
+  });
+}
+
+/**
+ * Decode an ignition code
+ * @param {string} code The raw `ign` code
+ * @param {string} modelo The tracker model, when known
+ * @returns {'on' | 'off' | null} The ignition state, or null for unknown codes
+ */
+export function decodeIgnition(code: string, modelo?: string): 'on' | 'off' | null {
+  const codes = getTelemetryCodes(modelo);
+  const normalized = normalizeCode(code);
+
+  if (codes.ignitionOn.has(normalized)) return 'on';
+  if (codes.ignitionOff.has(normalized)) return 'off';
+
+  reportUnknownCode('ign', code, modelo);
+  return null;
+}
+
+/**
+ * Decode an event code
+ * @param {string} code The raw `evt` code
+ * @param {string} modelo The tracker model, when known
+ * @returns {TelemetryEvent | null} The event, or null for unknown codes
+ */
+export function decodeTelemetryEvent(code: string, modelo?: string): TelemetryEvent | null {
+  const definition = getTelemetryCodes(modelo).events.get(normalizeCode(code));
+
+  if (!definition || (!definition.kind && !definition.label)) {
+    reportUnknownCode('evt', code, modelo);
+    return null;
+  }
+
+  return {
+    code,
+    kind: definition.kind,
+    label: definition.label || TELEMETRY_EVENT_LABELS[definition.kind!],
+  };
+}
+
+/**
+ * Load the unknown codes received on this device
+ * @returns {Promise<UnknownTelemetryCode[]>} The codes, most recently found first
+ */
+export async function loadUnknownTelemetryCodes(): Promise<UnknownTelemetryCode[]> {
+  try {
+    const stored = await AsyncStorage.getItem(UNKNOWN_CODES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Telemetry: Failed to load unknown codes:', error);
+    return [];
+  }
+}
+
+/**
+ * Forget the unknown codes, e.g. after they were added to the dictionary
+ */
+export async function clearUnknownTelemetryCodes(): Promise<void> {
+  reportedCodes.clear();
+  await unknownCodesQueue;
+
+  try {
+    await AsyncStorage.removeItem(UNKNOWN_CODES_STORAGE_KEY);
+  } catch (error) {
+    console.error('Telemetry: Failed to clear unknown codes:', error);
+  }
+}
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -9,6 +9,7 @@ import {
   Linking,
   Modal,
   SafeAreaView,
+  ScrollView,
   Image
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
@@ -16,12 +17,54 @@ import { Ionicons } from '@expo/vector-icons';
 // Import app logo and config
 const appLogo = require('../assets/images/icon.png');
 import config from '../utils/config';
+import { getNotificationRoute, openPushRoute } from './pushRoutes';
+import { parseVehicleEvent } from './vehicleEvent';
+import { addToAlertGroups, removeFromAlertGroups, getAlertGroupSummary, AlertGroup, QueuedAlert } from './alertGroups';
 
-// Global reference to the active toast
-let globalToast: {
-  show: (message: string, duration?: number, actionText?: string, actionHandler?: () => void) => void;
-  hide: () => void;
-} | null = null;
+/**
+ * Toast severities, each one with its own color and icon
+ */
+export type ToastSeverity = 'info' | 'success' | 'warning' | 'error';
+
+/**
+ * Options of a toast message
+ */
+export interface ToastOptions {
+  // How long to show the toast (ms)
+  duration?: number;
+  severity?: ToastSeverity;
+  actionText?: string;
+  actionHandler?: () => void;
+}
+
+interface ToastEntry {
+  id: number;
+  message: string;
+  severity: ToastSeverity;
+  duration: number;
+  actionText?: string;
+  actionHandler?: () => void;
+  // Number of times the same message was shown while displayed or queued
+  count: number;
+}
+
+type ToastListener = (toast: ToastEntry | null) => void;
+
+const DEFAULT_TOAST_DURATION = 3000;
+
+// Oldest queued messages are dropped past this size
+const MAX_QUEUED_TOASTS = 10;
+
+// Time between two toasts, so the previous one can fade out (ms)
+const TOAST_GAP = 350;
+
+// Messages waiting to be shown, including the ones fired before the Toast component mounts
+let toastQueue: ToastEntry[] = [];
+let currentToast: ToastEntry | null = null;
+// Hides the current toast, or shows the next one after the gap
+let toastTimer: ReturnType<typeof setTimeout> | null = null;
+let nextToastId = 1;
+const toastListeners = new Set<ToastListener>();
 
 // Global reference to the in-app notification
 let globalNotification: {
@@ -29,40 +72,93 @@ let globalNotification: {
   hide: () => void;
 } | null = null;
 
+/**
+ * Show the next queued toast once the Toast component is mounted and no toast is displayed
+ */
+function showNextToast() {
+  if (currentToast || toastTimer || toastListeners.size === 0 || toastQueue.length === 0) return;
+
+  currentToast = toastQueue.shift()!;
+  toastListeners.forEach(listener => listener(currentToast));
+  toastTimer = setTimeout(hideToast, currentToast.duration);
+}
+
 /**
  * Show a toast message
+ * Messages are queued and shown one at a time. A message equal to the displayed or a queued one
+ * is not repeated, its counter is increased instead.
  * @param message The message to display
- * @param duration How long to show the toast (ms)
+ * @param durationOrOptions How long to show the toast (ms), or the toast options
  * @param actionText Optional text for an action button
  * @param actionHandler Optional handler for the action button
  */
 export function showToast(
   message: string,
-  duration: number = 3000,
+  durationOrOptions: number | ToastOptions = DEFAULT_TOAST_DURATION,
   actionText?: string,
   actionHandler?: () => void
 ) {
-  if (globalToast) {
-    globalToast.show(message, duration, actionText, actionHandler);
-  } else {
-    console.warn('Toast component not mounted');
+  const options: ToastOptions = typeof durationOrOptions === 'number'
+    ? { duration: durationOrOptions, actionText, actionHandler }
+    : durationOrOptions;
+  const severity = options.severity || 'info';
+
+  const isSame = (toast: ToastEntry) => toast.message === message && toast.severity === severity;
+
+  // Repeated message on screen: keep it longer instead of showing it again
+  if (currentToast && isSame(currentToast)) {
+    currentToast = { ...currentToast, count: currentToast.count + 1 };
+    toastListeners.forEach(listener => listener(currentToast));
+    if (toastTimer) clearTimeout(toastTimer);
+    toastTimer = setTimeout(hideToast, currentToast.duration);
+    return;
+  }
+
+  const queued = toastQueue.find(isSame);
+  if (queued) {
+    queued.count++;
+    return;
   }
+
+  toastQueue.push({
+    id: nextToastId++,
+    message,
+    severity,
+    duration: options.duration || DEFAULT_TOAST_DURATION,
+    actionText: options.actionText,
+    actionHandler: options.actionHandler,
+    count: 1,
+  });
+
+  if (toastQueue.length > MAX_QUEUED_TOASTS) {
+    const dropped = toastQueue.shift();
+    console.warn('Toast: Queue full, dropping message:', dropped?.message);
+  }
+
+  showNextToast();
 }
 
 /**
- * Hide the currently displayed toast
+ * Hide the currently displayed toast, the next queued one is shown after it
  */
 export function hideToast() {
-  if (globalToast) {
-    globalToast.hide();
-  }
+  if (!currentToast) return;
+
+  if (toastTimer) clearTimeout(toastTimer);
+  currentToast = null;
+  toastListeners.forEach(listener => listener(null));
+
+  toastTimer = setTimeout(() => {
+    toastTimer = null;
+    showNextToast();
+  }, TOAST_GAP);
 }
 
 /**
  * Show a custom in-app notification
  * @param title The notification title
  * @param body The notification body
- * @param data Optional data to pass to the handler (e.g. coordinates)
+ * @param data Optional push data, used to open the notification screen (e.g. coordinates)
  * @param icon Optional icon for the notification
  */
 export function showNotification(
@@ -103,23 +199,42 @@ export function openAppSettings() {
  * with a button to open app settings
  */
 export function showNotificationPermissionToast() {
-  showToast(
-    'Notifications are disabled. Enable them in app settings for updates.',
-    5000,
-    'Settings',
-    openAppSettings
-  );
+  showToast('Notifications are disabled. Enable them in app settings for updates.', {
+    duration: 5000,
+    severity: 'warning',
+    actionText: 'Settings',
+    actionHandler: openAppSettings,
+  });
 }
 
+// Color and icon of each toast severity
+const TOAST_SEVERITIES: Record<ToastSeverity, { color: string; icon: keyof typeof Ionicons.glyphMap }> = {
+  info: { color: config.colors.background, icon: 'information-circle' },
+  success: { color: config.colors.success, icon: 'checkmark-circle' },
+  warning: { color: config.colors.warning, icon: 'warning' },
+  error: { color: config.colors.error, icon: 'alert-circle' },
+};
+
+// Ids of the alerts shown in the in-app notification
+let nextAlertId = 1;
+
+// Format a timestamp as hh:mm
+const formatAlertTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
+
 /**
  * Custom in-app notification component to be rendered at the root of your app
  */
 export function InAppNotification() {
   const [visible, setVisible] = useState(false);
-  const [title, setTitle] = useState('');
-  const [body, setBody] = useState('');
-  const [data, setData] = useState<any>(null);
-  const [icon, setIcon] = useState<any>(null);
+  // Alerts waiting to be seen, grouped by vehicle with the most recent group first
+  const [groups, setGroups] = useState<AlertGroup[]>([]);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  // Latest groups, read by hide() which is registered once
+  const groupsRef = useRef<AlertGroup[]>([]);
+  groupsRef.current = groups;
   const fadeAnim = useState(new Animated.Value(0))[0];
   const slideAnim = useState(new Animated.Value(-100))[0];
 
@@ -130,10 +245,19 @@ export function InAppNotification() {
     // Register the notification methods globally
     globalNotification = {
       show: (titleText, bodyText, notificationData, iconImage) => {
-        setTitle(titleText);
-        setBody(bodyText);
-        setData(notificationData);
-        setIcon(iconImage);
+        const receivedAt = Date.now();
+        const alert: QueuedAlert = {
+          id: `${receivedAt}-${nextAlertId++}`,
+          title: titleText,
+          body: bodyText,
+          data: notificationData,
+          icon: iconImage,
+          placa: notificationData ? parseVehicleEvent(notificationData).event.placa : undefined,
+          receivedAt,
+        };
+
+        // Alerts of the same vehicle are stacked instead of replacing each other
+        setGroups(current => addToAlertGroups(current, alert));
         setVisible(true);
 
         Animated.parallel([
@@ -160,6 +284,9 @@ export function InAppNotification() {
   }, []);
 
   const hide = () => {
+    // Only the alerts on screen now are dismissed, alerts received during the fade-out stay
+    const shownIds = new Set(groupsRef.current.flatMap(group => group.alerts.map(alert => alert.id)));
+
     Animated.parallel([
       Animated.timing(fadeAnim, {
         toValue: 0,
@@ -171,85 +298,38 @@ export function InAppNotification() {
         duration: 300,
         useNativeDriver: true,
       })
-    ]).start(() => {
-      setVisible(false);
+    ]).start(({ finished }) => {
+      setGroups(current => removeFromAlertGroups(current, shownIds));
+      setExpandedKey(null);
+      // A new alert interrupts the fade-out and shows the notification again
+      if (finished) {
+        setVisible(false);
+      }
     });
   };
 
-  const handleViewDetails = () => {
-    // Hide the notification
+  // Navigate to the screen of an alert, usually the map
+  const openAlert = (alert: QueuedAlert) => {
     hide();
 
-    console.log('=== TOAST VIEW DETAILS ANALYSIS ===');
-    console.log('Handling View Details button click');
-
-    // Navigate to MapScreen with the notification data
-    if (data) {
-      console.log('Notification data available:', data);
-      console.log('Data keys:', Object.keys(data));
-
-      // Analyze location data
-      console.log('Location data:');
-      console.log('- lat:', data.lat, typeof data.lat);
-      console.log('- lon:', data.lon, typeof data.lon);
-      console.log('- latitude:', data.latitude, typeof data.latitude);
-      console.log('- longitude:', data.longitude, typeof data.longitude);
-
-      // Analyze other fields
-      console.log('Other fields:');
-      console.log('- title:', title);
-      console.log('- body:', body);
-      console.log('- data.message:', data.message);
-      console.log('- data.placa:', data.placa);
-      console.log('- data.end:', data.end);
-      console.log('- data.vel:', data.vel);
-      console.log('- data.dt:', data.dt);
-      console.log('- data.ign:', data.ign);
-      console.log('- data.id:', data.id);
-
-      // Create parameters with notification data
-      const params: Record<string, string> = {
-        ...data,
-        title: title || 'Localização',
-        message: body || data.message || '' // Use notification body or message from data
-      };
-
-      // Handle lat/lon fields from notification data
-      console.log('Toast data for map navigation:', data);
-
-      // Convert lat to latitude if needed
-      if (data.lat && !params.latitude) {
-        console.log('Converting lat to latitude:', data.lat);
-        // Pass the original string value without conversion
-        params.latitude = data.lat as string;
-        console.log('Set latitude param to:', params.latitude);
-      }
-
-      // Convert lon to longitude if needed
-      if (data.lon && !params.longitude) {
-        console.log('Converting lon to longitude:', data.lon);
-        // Pass the original string value without conversion
-        params.longitude = data.lon as string;
-        console.log('Set longitude param to:', params.longitude);
-      }
-
-      // Remove latitude/longitude if they don't exist
-      if (!params.latitude && !data.lat) {
-        delete params.latitude;
-      }
+    if (alert.data) {
+      console.log('Notification data available:', alert.data);
+      openPushRoute(router, getNotificationRoute(alert.data, { title: alert.title, body: alert.body }));
+    }
+  };
 
-      if (!params.longitude && !data.lon) {
-        delete params.longitude;
-      }
+  const toggleGroup = (group: AlertGroup) => {
+    setExpandedKey(current => (current === group.key ? null : group.key));
+  };
 
-      router.push({
-        pathname: '/map',
-        params
-      });
-    }
+  const handleViewInbox = () => {
+    hide();
+    router.push('/inbox');
   };
 
-  if (!visible) return null;
+  if (!visible || groups.length === 0) return null;
+
+  const latest = groups[0].alerts[0];
 
   return (
     <Modal
@@ -269,21 +349,70 @@ export function InAppNotification() {
           ]}
         >
           <View style={notificationStyles.notification}>
-            <View style={notificationStyles.content}>
-              <View style={notificationStyles.iconContainer}>
-                <Image source={appLogo} style={notificationStyles.icon} />
-              </View>
-              <View style={notificationStyles.textContainer}>
-                <Text style={notificationStyles.title}>{title}</Text>
-                <Text style={notificationStyles.body}>{body}</Text>
-              </View>
-            </View>
+            <ScrollView style={notificationStyles.groupList}>
+              {groups.map((group, index) => {
+                const stacked = group.alerts.length > 1;
+                const expanded = expandedKey === group.key;
+
+                return (
+                  <View key={group.key} style={index > 0 && notificationStyles.groupSeparator}>
+                    <TouchableOpacity
+                      style={notificationStyles.content}
+                      onPress={() => toggleGroup(group)}
+                      disabled={!stacked}
+                      activeOpacity={0.7}
+                    >
+                      <View>
+                        <View style={notificationStyles.iconContainer}>
+                          <Image source={appLogo} style={notificationStyles.icon} />
+                        </View>
+                        {stacked && (
+                          <View style={notificationStyles.countBadge}>
+                            <Text style={notificationStyles.countBadgeText}>{group.alerts.length}</Text>
+                          </View>
+                        )}
+                      </View>
+                      <View style={notificationStyles.textContainer}>
+                        <Text style={notificationStyles.title}>{getAlertGroupSummary(group)}</Text>
+                        <Text style={notificationStyles.body} numberOfLines={stacked ? 2 : undefined}>
+                          {group.alerts[0].body}
+                        </Text>
+                      </View>
+                      {stacked && (
+                        <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={20} color="#3b80b8" />
+                      )}
+                    </TouchableOpacity>
+
+                    {expanded && group.alerts.map(alert => (
+                      <TouchableOpacity
+                        key={alert.id}
+                        style={notificationStyles.alertRow}
+                        onPress={() => openAlert(alert)}
+                        disabled={!alert.data}
+                      >
+                        <Text style={notificationStyles.alertTime}>{formatAlertTime(alert.receivedAt)}</Text>
+                        <View style={notificationStyles.textContainer}>
+                          <Text style={notificationStyles.alertTitle}>{alert.title}</Text>
+                          <Text style={notificationStyles.body}>{alert.body}</Text>
+                        </View>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                );
+              })}
+            </ScrollView>
 
             <View style={notificationStyles.footer}>
 
-              {data && (
+              <TouchableOpacity
+                onPress={handleViewInbox}
+                style={notificationStyles.textButton}
+              >
+                <Text style={notificationStyles.textButtonText}>Histórico</Text>
+              </TouchableOpacity>
+              {latest.data && (
                 <TouchableOpacity
-                  onPress={handleViewDetails}
+                  onPress={() => openAlert(latest)}
                   style={[notificationStyles.textButton, notificationStyles.viewDetailsButton]}
                 >
                   <Text style={[notificationStyles.textButtonText]}>Ver detalhes</Text>
@@ -308,51 +437,52 @@ export function InAppNotification() {
  * Toast component to be rendered at the root of your app
  */
 export function Toast() {
-  const [visible, setVisible] = useState(false);
-  const [message, setMessage] = useState('');
-  const [actionText, setActionText] = useState<string | undefined>(undefined);
-  const [actionHandler, setActionHandler] = useState<(() => void) | undefined>(undefined);
+  // Displayed toast, kept while it fades out
+  const [toast, setToast] = useState<ToastEntry | null>(null);
   const fadeAnim = useState(new Animated.Value(0))[0];
 
   useEffect(() => {
-    // Register the toast methods globally
-    globalToast = {
-      show: (msg, duration = 3000, action?, handler?) => {
-        setMessage(msg);
-        setActionText(action);
-        setActionHandler(handler);
-        setVisible(true);
-
+    const listener: ToastListener = entry => {
+      if (entry) {
+        setToast(entry);
         Animated.timing(fadeAnim, {
           toValue: 1,
           duration: 300,
           useNativeDriver: true,
         }).start();
-
-        // Auto hide after duration
-        setTimeout(() => {
-          hide();
-        }, duration);
-      },
-      hide: hide
+      } else {
+        Animated.timing(fadeAnim, {
+          toValue: 0,
+          duration: 300,
+          useNativeDriver: true,
+        }).start(({ finished }) => {
+          if (finished) setToast(null);
+        });
+      }
     };
 
+    toastListeners.add(listener);
+
+    // Show the messages fired before the component was mounted
+    if (currentToast) {
+      listener(currentToast);
+    } else {
+      showNextToast();
+    }
+
     return () => {
-      globalToast = null;
+      toastListeners.delete(listener);
     };
   }, []);
 
-  const hide = () => {
-    Animated.timing(fadeAnim, {
-      toValue: 0,
-      duration: 300,
-      useNativeDriver: true,
-    }).start(() => {
-      setVisible(false);
-    });
+  const handleAction = () => {
+    toast?.actionHandler?.();
+    hideToast();
   };
 
-  if (!visible) return null;
+  if (!toast) return null;
+
+  const severity = TOAST_SEVERITIES[toast.severity];
 
   return (
     <Animated.View
@@ -361,11 +491,15 @@ export function Toast() {
         { opacity: fadeAnim }
       ]}
     >
-      <View style={styles.toast}>
-        <Text style={styles.message}>{message}</Text>
-        {actionText && actionHandler && (
-          <TouchableOpacity onPress={actionHandler} style={styles.actionButton}>
-            <Text style={styles.actionText}>{actionText}</Text>
+      <View style={[styles.toast, { backgroundColor: severity.color }]}>
+        <Ionicons name={severity.icon} size={18} color={config.colors.text} style={styles.icon} />
+        <Text style={styles.message}>{toast.message}</Text>
+        {toast.count > 1 && (
+          <Text style={styles.count}>×{toast.count}</Text>
+        )}
+        {toast.actionText && toast.actionHandler && (
+          <TouchableOpacity onPress={handleAction} style={styles.actionButton}>
+            <Text style={styles.actionText}>{toast.actionText}</Text>
           </TouchableOpacity>
         )}
       </View>
@@ -417,6 +551,47 @@ const notificationStyles = StyleSheet.create({
   textContainer: {
     flex: 1,
   },
+  groupList: {
+    maxHeight: 420,
+  },
+  groupSeparator: {
+    borderTopWidth: 1,
+    borderTopColor: '#e0e0e0',
+  },
+  countBadge: {
+    position: 'absolute',
+    top: -4,
+    right: 6,
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 5,
+    backgroundColor: '#dc3545',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  countBadgeText: {
+    color: 'white',
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
+  alertRow: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    paddingLeft: 68,
+    paddingRight: 16,
+  },
+  alertTime: {
+    color: '#666',
+    fontSize: 12,
+    width: 44,
+    marginTop: 2,
+  },
+  alertTitle: {
+    color: '#333',
+    fontWeight: '500',
+    fontSize: 14,
+  },
   title: {
     color: '#333',
     fontWeight: 'bold',
@@ -462,7 +637,6 @@ const styles = StyleSheet.create({
     zIndex: 9999,
   },
   toast: {
-    backgroundColor: 'rgba(0, 0, 0, 0.8)',
     borderRadius: 25,
     paddingHorizontal: 16,
     paddingVertical: 10,
@@ -472,11 +646,21 @@ const styles = StyleSheet.create({
     maxWidth: '90%',
     minWidth: '50%',
   },
+  icon: {
+    marginRight: 8,
+  },
   message: {
-    color: 'white',
+    color: config.colors.text,
     fontSize: 14,
     flex: 1,
   },
+  count: {
+    color: config.colors.text,
+    fontSize: 12,
+    fontWeight: 'bold',
+    opacity: 0.8,
+    marginLeft: 8,
+  },
   actionButton: {
     marginLeft: 16,
     paddingLeft: 16,
@@ -484,7 +668,7 @@ const styles = StyleSheet.create({
     borderLeftColor: 'rgba(255, 255, 255, 0.5)',
   },
   actionText: {
-    color: '#4CAF50',
+    color: config.colors.text,
     fontWeight: 'bold',
     fontSize: 14,
   },
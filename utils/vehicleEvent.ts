@@ -0,0 +1,419 @@
+/**
+ * Vehicle event model
+ * Parses and normalizes the vehicle fields sent by the tracking server in the
+ * FCM `data` payload (lat/lon, placa, end, vel, dt, ign, evt, modelo, id) so that every
+ * entry point (cold start, background tap, foreground toast) renders the same event.
+ */
+
+import { decodeIgnition, decodeTelemetryEvent } from './telemetry';
+
+/**
+ * Normalized ignition state
+ */
+export type IgnitionState = 'on' | 'off' | 'unknown';
+
+/**
+ * Fields that can be reported as malformed by the parser
+ */
+export type VehicleEventField = 'latitude' | 'longitude' | 'velocidade' | 'data' | 'trail';
+
+/**
+ * A timestamped position of the vehicle route trail
+ */
+export interface TrailPoint {
+  latitude: number;
+  longitude: number;
+  velocidade?: number;
+  data?: Date;
+  dataText?: string;
+  ignicao?: IgnitionState;
+  ignicaoCode?: string;
+}
+
+/**
+ * A vehicle event received from the tracking server
+ */
+export interface VehicleEvent {
+  title: string;
+  message: string;
+  latitude?: number;
+  longitude?: number;
+  placa?: string;
+  // Driver name, from the `motorista` field or the "Mot:" segment of the message
+  motorista?: string;
+  endereco?: string;
+  // Speed in km/h
+  velocidade?: number;
+  data?: Date;
+  // Original date text as sent by the server, used for display
+  dataText?: string;
+  ignicao?: IgnitionState;
+  // Raw ignition code as sent by the server (e.g. '1', '0', '4')
+  ignicaoCode?: string;
+  // Tracker event, decoded with the telemetry dictionary
+  evento?: string;
+  // Raw event code as sent by the server
+  eventoCode?: string;
+  // Tracker model, selects its codes in the telemetry dictionary
+  modelo?: string;
+  id?: string;
+  // Positions the vehicle went through before the event, oldest first
+  trail?: TrailPoint[];
+}
+
+/**
+ * Result of parsing a payload
+ */
+export interface VehicleEventParseResult {
+  event: VehicleEvent;
+  // Fields that were present in the payload but could not be parsed
+  invalidFields: VehicleEventField[];
+}
+
+/**
+ * Raw payload accepted by the parser: FCM `data`, route params or toast data
+ */
+export type VehicleEventPayload = { [key: string]: unknown } | undefined | null;
+
+/**
+ * Fallback title and body, usually taken from the FCM `notification` payload
+ */
+export interface VehicleEventDefaults {
+  title?: string;
+  body?: string;
+}
+
+const DEFAULT_TITLE = 'Localização';
+
+/**
+ * Read a payload value as a trimmed string
+ * Route params may arrive as arrays, in which case the first value is used
+ */
+function readString(payload: VehicleEventPayload, ...keys: string[]): string | undefined {
+  if (!payload) return undefined;
+
+  for (const key of keys) {
+    let value = payload[key];
+    if (Array.isArray(value)) value = value[0];
+    if (value === undefined || value === null) continue;
+
+    const text = String(value).trim();
+    if (text) return text;
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a decimal number, accepting comma as decimal separator
+ * @param value The text to parse (e.g. "-23,5505" or "45 km/h")
+ * @returns The parsed number or NaN
+ */
+export function parseDecimal(value: string): number {
+  const match = value.replace(',', '.').match(/^-?\d+(\.\d+)?/);
+  return match ? parseFloat(match[0]) : NaN;
+}
+
+/**
+ * Parse a date sent by the server
+ * Accepts Brazilian format (dd/mm/yyyy [hh:mm[:ss]]) and ISO 8601
+ * @param value The date text
+ * @returns The parsed date or null if it is not valid
+ */
+export function parseBrazilianDate(value: string): Date | null {
+  const match = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+
+  if (match) {
+    const [, dd, mm, yy, hh = '0', min = '0', ss = '0'] = match;
+    const year = yy.length === 2 ? 2000 + parseInt(yy, 10) : parseInt(yy, 10);
+    const date = new Date(year, parseInt(mm, 10) - 1, parseInt(dd, 10), parseInt(hh, 10), parseInt(min, 10), parseInt(ss, 10));
+
+    // Reject overflowing values such as 31/02
+    if (date.getDate() !== parseInt(dd, 10) || date.getMonth() !== parseInt(mm, 10) - 1) {
+      return null;
+    }
+    return date;
+  }
+
+  const iso = new Date(value);
+  return isNaN(iso.getTime()) ? null : iso;
+}
+
+/**
+ * Normalize an ignition code
+ * @param code Raw code sent by the tracker
+ * @param modelo Tracker model, when known
+ * @returns The ignition state
+ */
+export function parseIgnition(code: string, modelo?: string): IgnitionState {
+  return decodeIgnition(code, modelo) || 'unknown';
+}
+
+/**
+ * Split the driver out of a server message such as "Ignição ligada Mot: João Silva"
+ * The driver name runs until the end of the line or the next `|` or `;`
+ * @param message The message text
+ * @returns The message without the driver segment, and the driver name when present
+ */
+export function splitMessageDriver(message: string): { text: string; motorista?: string } {
+  // Some servers glue the segment to the previous word ("ligadaMot: ...")
+  const match = message.match(/Mot:\s*([^|;\n]*)/);
+  const motorista = match?.[1].trim();
+  if (!match || !motorista) return { text: message };
+
+  const text = (message.slice(0, match.index) + message.slice(match.index! + match[0].length))
+    .replace(/^[\s|;,-]+|[\s|;,-]+$/g, '')
+    .replace(/\s{2,}/g, ' ');
+  return { text, motorista };
+}
+
+/**
+ * Parse a vehicle event from a notification payload or route params
+ * @param payload FCM `data`, map route params or in-app notification data
+ * @param defaults Fallback title and body from the FCM `notification` payload
+ * @returns The normalized event and the list of malformed fields
+ */
+export function parseVehicleEvent(
+  payload: VehicleEventPayload,
+  defaults: VehicleEventDefaults = {}
+): VehicleEventParseResult {
+  const invalidFields: VehicleEventField[] = [];
+
+  const modelo = readString(payload, 'modelo', 'model');
+  const evtText = readString(payload, 'evt', 'evento');
+  const telemetryEvent = evtText !== undefined ? decodeTelemetryEvent(evtText, modelo) : null;
+
+  const event: VehicleEvent = {
+    title: readString(payload, 'title') || defaults.title || telemetryEvent?.label || DEFAULT_TITLE,
+    message: readString(payload, 'message') || defaults.body || '',
+  };
+
+  if (modelo !== undefined) {
+    event.modelo = modelo;
+  }
+
+  if (evtText !== undefined) {
+    event.eventoCode = evtText;
+    if (telemetryEvent) {
+      event.evento = telemetryEvent.label;
+    }
+  }
+
+  // Coordinates - server sends lat/lon, older payloads latitude/longitude
+  const latText = readString(payload, 'lat', 'latitude');
+  const lonText = readString(payload, 'lon', 'longitude');
+
+  if (latText !== undefined) {
+    const latitude = parseDecimal(latText);
+    if (isNaN(latitude) || latitude < -90 || latitude > 90) {
+      invalidFields.push('latitude');
+    } else {
+      event.latitude = latitude;
+    }
+  }
+
+  if (lonText !== undefined) {
+    const longitude = parseDecimal(lonText);
+    if (isNaN(longitude) || longitude < -180 || longitude > 180) {
+      invalidFields.push('longitude');
+    } else {
+      event.longitude = longitude;
+    }
+  }
+
+  // A single coordinate is useless, keep both or none
+  if ((event.latitude === undefined) !== (event.longitude === undefined)) {
+    if (event.latitude === undefined && !invalidFields.includes('latitude')) invalidFields.push('latitude');
+    if (event.longitude === undefined && !invalidFields.includes('longitude')) invalidFields.push('longitude');
+    delete event.latitude;
+    delete event.longitude;
+  }
+
+  const placa = readString(payload, 'placa');
+  if (placa !== undefined) {
+    event.placa = placa.toUpperCase().replace(/[\s-]/g, '');
+  }
+
+  const motorista = readString(payload, 'motorista') || splitMessageDriver(event.message).motorista;
+  if (motorista !== undefined) {
+    event.motorista = motorista;
+  }
+
+  const endereco = readString(payload, 'end');
+  if (endereco !== undefined) {
+    event.endereco = endereco;
+  }
+
+  const velText = readString(payload, 'vel');
+  if (velText !== undefined) {
+    const velocidade = parseDecimal(velText);
+    if (isNaN(velocidade) || velocidade < 0) {
+      invalidFields.push('velocidade');
+    } else {
+      event.velocidade = velocidade;
+    }
+  }
+
+  const dtText = readString(payload, 'dt');
+  if (dtText !== undefined) {
+    event.dataText = dtText;
+    const data = parseBrazilianDate(dtText);
+    if (data) {
+      event.data = data;
+    } else {
+      invalidFields.push('data');
+    }
+  }
+
+  const ignText = readString(payload, 'ign');
+  if (ignText !== undefined) {
+    event.ignicaoCode = ignText;
+    event.ignicao = parseIgnition(ignText, modelo);
+  }
+
+  const id = readString(payload, 'id');
+  if (id !== undefined) {
+    event.id = id;
+  }
+
+  // Route trail - JSON text in notification data and route params, a list from the WebView bridge
+  const trailValue = payload?.trail;
+  if (trailValue !== undefined && trailValue !== null && trailValue !== '') {
+    const trail = parseTrail(trailValue, modelo);
+    if (trail) {
+      event.trail = trail;
+    } else {
+      invalidFields.push('trail');
+    }
+  }
+
+  if (invalidFields.length > 0) {
+    console.warn('VehicleEvent: Malformed fields in payload:', invalidFields, payload);
+  }
+
+  return { event, invalidFields };
+}
+
+/**
+ * Parse a route trail
+ * Each position accepts the same fields as a notification payload (lat, lon, vel, dt, ign)
+ * @param value A list of positions or its JSON text
+ * @param modelo Tracker model of the positions, to decode their ignition codes
+ * @returns The valid positions sorted by date, or null if the value is not a list
+ */
+export function parseTrail(value: unknown, modelo?: string): TrailPoint[] | null {
+  let items = value;
+
+  if (typeof items === 'string') {
+    try {
+      items = JSON.parse(items);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  if (!Array.isArray(items)) return null;
+
+  const points: TrailPoint[] = [];
+
+  items.forEach(item => {
+    if (!item || typeof item !== 'object') return;
+
+    const { event } = parseVehicleEvent({ modelo, ...(item as Record<string, unknown>) });
+    if (!hasVehicleCoordinates(event)) return;
+
+    points.push({
+      latitude: event.latitude,
+      longitude: event.longitude,
+      velocidade: event.velocidade,
+      data: event.data,
+      dataText: event.dataText,
+      ignicao: event.ignicao,
+      ignicaoCode: event.ignicaoCode,
+    });
+  });
+
+  // Keep the server order unless every position has a date
+  if (points.every(point => point.data)) {
+    points.sort((a, b) => a.data!.getTime() - b.data!.getTime());
+  }
+
+  return points;
+}
+
+/**
+ * Check whether the event carries a usable position
+ */
+export function hasVehicleCoordinates(event: VehicleEvent): event is VehicleEvent & { latitude: number; longitude: number } {
+  return event.latitude !== undefined && event.longitude !== undefined;
+}
+
+/**
+ * Convert an event into `/map` route params
+ * The result can be parsed back with parseVehicleEvent
+ * @param event The vehicle event
+ * @returns String params for expo-router
+ */
+export function vehicleEventToParams(event: VehicleEvent): Record<string, string> {
+  const params: Record<string, string> = {
+    title: event.title,
+    message: event.message,
+  };
+
+  if (hasVehicleCoordinates(event)) {
+    params.latitude = String(event.latitude);
+    params.longitude = String(event.longitude);
+  }
+  if (event.placa) params.placa = event.placa;
+  if (event.motorista) params.motorista = event.motorista;
+  if (event.endereco) params.end = event.endereco;
+  if (event.velocidade !== undefined) params.vel = String(event.velocidade);
+  if (event.dataText) params.dt = event.dataText;
+  if (event.ignicaoCode) params.ign = event.ignicaoCode;
+  if (event.eventoCode) params.evt = event.eventoCode;
+  if (event.modelo) params.modelo = event.modelo;
+  if (event.id) params.id = event.id;
+  if (event.trail && event.trail.length > 0) {
+    params.trail = JSON.stringify(event.trail.map(point => ({
+      lat: point.latitude,
+      lon: point.longitude,
+      vel: point.velocidade,
+      dt: point.dataText,
+      ign: point.ignicaoCode,
+    })));
+  }
+
+  return params;
+}
+
+/**
+ * Get the display text for the ignition state
+ */
+export function getIgnitionLabel(event: Pick<VehicleEvent, 'ignicao' | 'ignicaoCode'>): string {
+  switch (event.ignicao) {
+    case 'on':
+      return 'Ligada';
+    case 'off':
+      return 'Desligada';
+    case 'unknown':
+      return `Estado ${event.ignicaoCode}`;
+    default:
+      return 'N/A';
+  }
+}
+
+/**
+ * Get the display text for the tracker event
+ */
+export function getEventLabel(event: Pick<VehicleEvent, 'evento' | 'eventoCode'>): string {
+  if (event.evento) return event.evento;
+  return event.eventoCode ? `Código ${event.eventoCode}` : 'N/A';
+}
+
+/**
+ * Get the display text for the speed
+ */
+export function getSpeedLabel(event: Pick<VehicleEvent, 'velocidade'>): string {
+  if (event.velocidade === undefined) return 'N/A';
+  return `${event.velocidade} km/h`;
+}
@@ -0,0 +1,35 @@
+const { withAndroidManifest } = require('@expo/config-plugins');
+
+// Declara os esquemas de URL consultados com Linking.canOpenURL, exigido pelo Android 11+
+module.exports = function withAndroidQueries(config, { schemes = [] } = {}) {
+  return withAndroidManifest(config, (config) => {
+    const manifest = config.modResults.manifest;
+
+    if (!manifest.queries || manifest.queries.length === 0) {
+      manifest.queries = [{}];
+    }
+    const queries = manifest.queries[0];
+    queries.intent = queries.intent || [];
+
+    // Esquemas já declarados, para não duplicar a cada prebuild
+    const declared = new Set();
+    queries.intent.forEach((intent) => {
+      (intent.data || []).forEach((data) => {
+        if (data.$ && data.$['android:scheme']) {
+          declared.add(data.$['android:scheme']);
+        }
+      });
+    });
+
+    schemes
+      .filter((scheme) => !declared.has(scheme))
+      .forEach((scheme) => {
+        queries.intent.push({
+          action: [{ $: { 'android:name': 'android.intent.action.VIEW' } }],
+          data: [{ $: { 'android:scheme': scheme } }],
+        });
+      });
+
+    return config;
+  });
+};